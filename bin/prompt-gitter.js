@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Run `npm run build:cli` first; the CLI is compiled from src/cli
+require('../build/cli/cli/index.js');
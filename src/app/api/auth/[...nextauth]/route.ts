@@ -1,34 +1,6 @@
 import NextAuth from "next-auth";
-import GithubProvider from "next-auth/providers/github";
+import { authOptions } from "../../../lib/auth";
 
-const handler = NextAuth({
-  providers: [
-    GithubProvider({
-      clientId: process.env.GITHUB_ID ?? "",
-      clientSecret: process.env.GITHUB_SECRET ?? "",
-      authorization: {
-        params: {
-          scope: 'read:user user:email public_repo',
-        },
-      },
-    }),
-  ],
-  callbacks: {
-    async jwt({ token, account, profile }: any) {
-      // Persist the OAuth access_token and GitHub username to the token right after signin
-      if (account) {
-        token.accessToken = account.access_token;
-        token.username = profile.login; // Add GitHub username
-      }
-      return token;
-    },
-    async session({ session, token }: any) {
-      // Send properties to the client
-      session.accessToken = token.accessToken;
-      session.username = token.username; // Add GitHub username to session
-      return session;
-    },
-  },
-});
+const handler = NextAuth(authOptions);
 
-export { handler as GET, handler as POST }; 
\ No newline at end of file
+export { handler as GET, handler as POST };
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "../../lib/auth";
+import { streamCompletion } from "../../lib/playground/providers";
+import { PlaygroundEvent, PlaygroundRequest } from "../../lib/playground/types";
+
+// Runs a rendered prompt against its provider and streams PlaygroundEvents back as NDJSON
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return NextResponse.json({ message: "Request body must be JSON" }, { status: 400 });
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ message: "Request body must be a JSON object" }, { status: 400 });
+  }
+  const body = parsed as PlaygroundRequest;
+  if ([body.provider, body.model, body.prompt].some(field => typeof field !== "string" || field === "")) {
+    return NextResponse.json({ message: "provider, model and prompt are required" }, { status: 400 });
+  }
+  if (body.messages !== undefined && !Array.isArray(body.messages)) {
+    return NextResponse.json({ message: "messages must be a list" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: PlaygroundEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        for await (const event of streamCompletion(body, request.signal)) {
+          send(event);
+        }
+        send({ type: "done" });
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error("Playground run failed:", error);
+          send({ type: "error", message: (error as Error).message });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // The client already went away
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
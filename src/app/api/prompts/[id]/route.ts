@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { parsePromptInput } from "../../../lib/validation";
+import { createServerStorage, getApiIdentity, requestLibrary, storageErrorResponse } from "../../../lib/storage/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const prompt = await createServerStorage(identity, requestLibrary(request, identity)).readPrompt(id);
+    if (!prompt) {
+      return NextResponse.json({ message: `Prompt ${id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    return storageErrorResponse(error);
+  }
+}
+
+// Fields left out of the body keep their stored values
+export async function PUT(request: Request, { params }: RouteContext) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const storage = createServerStorage(identity, requestLibrary(request, identity));
+    const current = await storage.readPrompt(id);
+    if (!current) {
+      return NextResponse.json({ message: `Prompt ${id} not found` }, { status: 404 });
+    }
+
+    const input = parsePromptInput(await request.json().catch(() => null), {
+      ...current,
+      content: current.content ?? '',
+    });
+    // Guard against changes made between our read and the write
+    const prompt = await storage.updatePrompt(id, input, { base: current });
+
+    return NextResponse.json({ prompt: { ...prompt, content: input.content } });
+  } catch (error) {
+    return storageErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const storage = createServerStorage(identity, requestLibrary(request, identity));
+    if (!(await storage.readPrompt(id))) {
+      return NextResponse.json({ message: `Prompt ${id} not found` }, { status: 404 });
+    }
+
+    await storage.deletePrompt(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return storageErrorResponse(error);
+  }
+}
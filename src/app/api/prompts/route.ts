@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { isInFolder } from "../../lib/folders";
+import { parseFolder, parsePromptInput } from "../../lib/validation";
+import { createServerStorage, getApiIdentity, requestLibrary, storageErrorResponse } from "../../lib/storage/server";
+
+// GET /api/prompts?tag=rag&provider=anthropic&folder=writing — repeated filters match any of the given values
+export async function GET(request: Request) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const tags = searchParams.getAll("tag");
+  const providers = searchParams.getAll("provider");
+
+  try {
+    const folder = parseFolder(searchParams.get("folder") ?? "");
+    const prompts = (await createServerStorage(identity, requestLibrary(request, identity)).listPrompts())
+      .filter(prompt => tags.length === 0 || tags.some(tag => prompt.tags.includes(tag)))
+      .filter(prompt => providers.length === 0 || providers.includes(prompt.provider))
+      .filter(prompt => isInFolder(prompt, folder));
+
+    return NextResponse.json({ prompts });
+  } catch (error) {
+    return storageErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const input = parsePromptInput(await request.json().catch(() => null));
+    const prompt = await createServerStorage(identity, requestLibrary(request, identity)).createPrompt(input);
+
+    return NextResponse.json({ prompt: { ...prompt, content: input.content } }, { status: 201 });
+  } catch (error) {
+    return storageErrorResponse(error);
+  }
+}
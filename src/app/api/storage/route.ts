@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { RefUpdateRejectedError } from "../../lib/storage/errors";
+import { GitOperation } from "../../lib/storage/http";
+import { LocalRepoAccessError, canUseLocalRepo, createLocalBackend, getApiIdentity } from "../../lib/storage/server";
+import { ValidationError } from "../../lib/validation";
+
+interface StorageRequest {
+  op: GitOperation;
+  args?: unknown[];
+  branch?: string;
+}
+
+// Serves the local git backend to the browser when NEXT_PUBLIC_PROMPT_STORAGE=local
+export async function POST(request: Request) {
+  const identity = await getApiIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ message: "Not signed in" }, { status: 401 });
+  }
+  // Raw repository access, so only the users LOCAL_REPO_USERS names get it
+  if (!canUseLocalRepo(identity)) {
+    return NextResponse.json({ message: new LocalRepoAccessError(identity.username).message }, { status: 403 });
+  }
+
+  let op: GitOperation | undefined;
+  try {
+    const body: StorageRequest | null = await request.json().catch(() => null);
+    if (typeof body?.op !== "string" || (body.args !== undefined && !Array.isArray(body.args))) {
+      throw new ValidationError("Request body must be a JSON object with an op and an args array");
+    }
+    if (body.branch !== undefined && typeof body.branch !== "string") {
+      throw new ValidationError("branch must be a string");
+    }
+    op = body.op;
+    const args = body.args ?? [];
+
+    const backend = createLocalBackend(identity, body.branch);
+    switch (op) {
+      case "exists":
+        return NextResponse.json({ result: await backend.exists() });
+      case "initialize":
+        return NextResponse.json({ result: await backend.initialize() });
+      case "getHead":
+        return NextResponse.json({ result: await backend.getHead() });
+      case "readFile":
+        return NextResponse.json({ result: await backend.readFile(String(args[0]), String(args[1])) });
+      case "listFiles":
+        return NextResponse.json({ result: await backend.listFiles(String(args[0])) });
+      case "readBlobs":
+        if (!Array.isArray(args[0])) {
+          throw new ValidationError("readBlobs needs an array of shas");
+        }
+        return NextResponse.json({ result: await backend.readBlobs(args[0].map(String)) });
+      case "commit": {
+        const [head, message, changes] = args as Parameters<typeof backend.commit>;
+        if (typeof head?.branch !== "string" || typeof message !== "string" || !Array.isArray(changes)) {
+          throw new ValidationError("commit needs a head, a message and an array of changes");
+        }
+        return NextResponse.json({ result: await backend.commit(head, message, changes) });
+      }
+      case "listCommits":
+        return NextResponse.json({ result: await backend.listCommits(String(args[0])) });
+      default:
+        return NextResponse.json({ message: `Unknown operation: ${op}` }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    if (error instanceof RefUpdateRejectedError) {
+      return NextResponse.json({ message: error.message, branch: error.branch }, { status: 409 });
+    }
+    console.error(`Storage operation ${op} failed:`, error);
+    return NextResponse.json({ message: (error as Error).message }, { status: 500 });
+  }
+}
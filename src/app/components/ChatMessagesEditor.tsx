@@ -0,0 +1,80 @@
+'use client';
+
+import { CHAT_ROLES, ChatMessage, ChatRole } from '../lib/chat';
+
+interface ChatMessagesEditorProps {
+  messages: ChatMessage[];
+  onChange: (messages: ChatMessage[]) => void;
+}
+
+const buttonClass = 'px-2 py-1 text-xs font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50';
+
+// Edits an ordered list of role-tagged messages, e.g. a system prompt followed by few-shot examples
+export default function ChatMessagesEditor({ messages, onChange }: ChatMessagesEditorProps) {
+  const updateMessage = (index: number, changes: Partial<ChatMessage>) => {
+    onChange(messages.map((message, i) => i === index ? { ...message, ...changes } : message));
+  };
+
+  const moveMessage = (index: number, offset: number) => {
+    const next = [...messages];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  // Alternates with the last message, which is what few-shot examples need
+  const addMessage = () => {
+    const last = messages[messages.length - 1]?.role;
+    const role: ChatRole = last === 'user' ? 'assistant' : 'user';
+    onChange([...messages, { role, content: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message, index) => (
+        <div key={index} className="p-3 rounded-md border border-[#3a3a3a]">
+          <div className="flex items-center justify-between mb-2">
+            <select
+              value={message.role}
+              onChange={(e) => updateMessage(index, { role: e.target.value as ChatRole })}
+              aria-label={`Role of message ${index + 1}`}
+              className="rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white text-sm"
+            >
+              {CHAT_ROLES.map(role => (
+                <option key={role} value={role} className="bg-[#2a2a2a] text-white">
+                  {role}
+                </option>
+              ))}
+            </select>
+            <div className="flex space-x-1">
+              <button type="button" onClick={() => moveMessage(index, -1)} disabled={index === 0} className={buttonClass}>
+                Up
+              </button>
+              <button type="button" onClick={() => moveMessage(index, 1)} disabled={index === messages.length - 1} className={buttonClass}>
+                Down
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(messages.filter((_, i) => i !== index))}
+                disabled={messages.length === 1}
+                className={buttonClass}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={message.content}
+            onChange={(e) => updateMessage(index, { content: e.target.value })}
+            rows={3}
+            aria-label={`Message ${index + 1}`}
+            className="block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50 placeholder-gray-400 font-mono"
+            placeholder={message.role === 'system' ? 'Instructions for the model' : 'Message text'}
+          />
+        </div>
+      ))}
+      <button type="button" onClick={addMessage} className={buttonClass}>
+        Add message
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+import { ChatMessage, ChatRole, toAnthropicPayload, toOpenAIMessages } from '../lib/chat';
+
+interface ChatTranscriptProps {
+  messages: ChatMessage[];
+}
+
+type PayloadFormat = 'openai' | 'anthropic';
+
+const ROLE_STYLES: Record<ChatRole, string> = {
+  system: 'bg-[#1f1f1f] border-dashed',
+  user: 'bg-[#2a2a2a] ml-8',
+  assistant: 'bg-[#1e2a22] mr-8',
+};
+
+// A chat prompt as a conversation, with copies of it as API payloads
+export default function ChatTranscript({ messages }: ChatTranscriptProps) {
+  const [copied, setCopied] = useState<PayloadFormat | null>(null);
+
+  const handleCopy = async (format: PayloadFormat) => {
+    const payload = format === 'openai' ? toOpenAIMessages(messages) : toAnthropicPayload(messages);
+    await navigator.clipboard.writeText(JSON.stringify(payload, null, 2));
+    setCopied(format);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => handleCopy('openai')}
+          title="Copy the messages array of the OpenAI Chat Completions API"
+          className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+        >
+          {copied === 'openai' ? 'Copied!' : 'Copy as OpenAI'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleCopy('anthropic')}
+          title="Copy the system and messages of the Anthropic Messages API"
+          className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+        >
+          {copied === 'anthropic' ? 'Copied!' : 'Copy as Anthropic'}
+        </button>
+      </div>
+      {messages.map((message, index) => (
+        <div key={index} className={`p-3 rounded-md border border-[#3a3a3a] ${ROLE_STYLES[message.role]}`}>
+          <div className="text-xs uppercase tracking-wide text-secondary mb-1">{message.role}</div>
+          <pre className="text-white font-mono whitespace-pre-wrap">{message.content}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,78 +1,56 @@
 'use client';
 
-import { useState } from 'react';
-import { useSession } from 'next-auth/react';
+import { useEffect, useState } from 'react';
+import PromptContentField from './PromptContentField';
+import ProviderModelFields from './ProviderModelFields';
+import TokenEstimate from './TokenEstimate';
+import VariablesEditor from './VariablesEditor';
+import { PromptFormat, PromptVariable, Provider } from '../types/prompt';
+import { BUILTIN_PROVIDERS, DEFAULT_PROVIDER, defaultModel } from '../lib/modelRegistry';
+import { extractIncludes } from '../lib/partials';
+import { syncVariables } from '../lib/template';
+import { ValidationError, parseFolder } from '../lib/validation';
+import { RefUpdateRejectedError } from '../lib/storage/errors';
+import { describeLibrary } from '../lib/storage/library';
+import { useProviderRegistry } from '../lib/storage/useProviderRegistry';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
 
 interface CreatePromptModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Libraries the prompt can be created in; the first is preselected
+  libraries: LibrarySource[];
+  // The folder selected in the list, which the prompt goes in unless changed
+  folder?: string;
   onPromptCreated: () => void;
 }
 
-type Provider = 'openai' | 'anthropic' | 'google' | 'xai' | 'meta' | 'mistral';
-
-interface ProviderConfig {
-  name: string;
-  models: string[];
-}
-
-interface PromptMetadata {
-  id: string;
-  title: string;
-  description: string;
-  tags: string[];
-  provider: Provider;
-  model: string;
-  filename: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Metadata {
-  prompts: PromptMetadata[];
-}
-
-const PROVIDERS: Record<Provider, ProviderConfig> = {
-  openai: {
-    name: 'OpenAI',
-    models: ['gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo', 'gpt-3.5']
-  },
-  anthropic: {
-    name: 'Anthropic',
-    models: ['claude-3-opus', 'claude-3-sonnet', 'claude-2.1', 'claude-2']
-  },
-  google: {
-    name: 'Google',
-    models: ['gemini-pro', 'gemini-ultra']
-  },
-  xai: {
-    name: 'xAI',
-    models: ['grok-1']
-  },
-  meta: {
-    name: 'Meta',
-    models: ['llama-2-70b', 'llama-2-13b', 'llama-2-7b']
-  },
-  mistral: {
-    name: 'Mistral',
-    models: ['mistral-large', 'mistral-medium', 'mistral-small']
-  }
-};
-
-export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }: CreatePromptModalProps) {
-  const { data: session } = useSession();
+export default function CreatePromptModal({ isOpen, onClose, libraries, folder: initialFolder = '', onPromptCreated }: CreatePromptModalProps) {
+  const [libraryKey, setLibraryKey] = useState('');
   const [title, setTitle] = useState('');
+  const [folder, setFolder] = useState(initialFolder);
   const [description, setDescription] = useState('');
+  const [format, setFormat] = useState<PromptFormat>('text');
   const [prompt, setPrompt] = useState('');
   const [tags, setTags] = useState('');
-  const [provider, setProvider] = useState<Provider>('openai');
-  const [model, setModel] = useState(PROVIDERS.openai.models[0]);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  // The chosen library may have been closed since, so fall back to the first
+  const target = libraries.find(library => library.key === libraryKey) ?? libraries[0];
+  const registry = useProviderRegistry(target);
+  const [provider, setProvider] = useState<Provider>(DEFAULT_PROVIDER);
+  const [model, setModel] = useState(() => defaultModel(BUILTIN_PROVIDERS, DEFAULT_PROVIDER));
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState('');
 
-  const handleProviderChange = (newProvider: Provider) => {
-    setProvider(newProvider);
-    setModel(PROVIDERS[newProvider].models[0]); // Reset to first model of new provider
+  // Start in the folder the list had selected when the modal opened
+  useEffect(() => {
+    if (isOpen) setFolder(initialFolder);
+  }, [isOpen, initialFolder]);
+
+  const handlePromptChange = (newFormat: PromptFormat, newPrompt: string) => {
+    setFormat(newFormat);
+    setPrompt(newPrompt);
+    setVariables(prev => syncVariables(newPrompt, prev));
   };
 
   if (!isOpen) return null;
@@ -83,97 +61,36 @@ export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }:
     setError('');
 
     try {
-      // Get metadata.json first
-      const metadataResponse = await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
-        }
-      );
-
-      let metadata: Metadata = { prompts: [] };
-      let sha = '';
-
-      if (metadataResponse.status !== 404) {
-        const metadataData = await metadataResponse.json();
-        metadata = JSON.parse(atob(metadataData.content));
-        sha = metadataData.sha;
-      }
-
-      // Convert title to kebab case for filename
-      const baseFilename = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
-      
-      // Check for existing prompts with similar filenames to handle duplicates
-      const existingPrompts = metadata.prompts.filter(p => p.filename.startsWith(`${baseFilename}-`));
-      const suffix = existingPrompts.length > 0 ? existingPrompts.length : '';
-      const filename = `${baseFilename}-${Date.now()}${suffix}.md`;
-
-      // Create new prompt metadata
-      const newPrompt: PromptMetadata = {
-        id: Date.now().toString(),
+      await target.storage.createPrompt({
         title,
         description,
         tags: tags.split(',').map(tag => tag.trim()),
         provider,
         model,
-        filename,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      // Add to metadata
-      metadata.prompts.push(newPrompt);
-
-      // Update or create metadata.json
-      await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: `Add prompt: ${title}`,
-            content: btoa(JSON.stringify(metadata, null, 2)),
-            ...(sha ? { sha } : {}),
-          }),
-        }
-      );
-
-      // Create prompt file
-      await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${newPrompt.filename}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: `Add prompt: ${title}`,
-            content: btoa(unescape(encodeURIComponent(prompt))),
-          }),
-        }
-      );
+        format,
+        content: prompt,
+        variables,
+        folder: parseFolder(folder),
+      });
 
       onClose();
       onPromptCreated();
       // Reset form
       setTitle('');
       setDescription('');
+      setFormat('text');
       setPrompt('');
       setTags('');
-      setProvider('openai');
-      setModel(PROVIDERS.openai.models[0]);
+      setVariables([]);
+      setProvider(DEFAULT_PROVIDER);
+      setModel(defaultModel(registry, DEFAULT_PROVIDER));
     } catch (err) {
       console.error('Error creating prompt:', err);
-      setError('Failed to create prompt. Please try again.');
+      setError(
+        err instanceof RefUpdateRejectedError || err instanceof ValidationError
+          ? err.message
+          : 'Failed to create prompt. Please try again.'
+      );
     } finally {
       setIsSaving(false);
     }
@@ -204,6 +121,26 @@ export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }:
           )}
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            {libraries.length > 1 && (
+              <div>
+                <label htmlFor="library" className="block text-sm font-medium text-default">
+                  Library
+                </label>
+                <select
+                  id="library"
+                  value={libraryKey || libraries[0].key}
+                  onChange={(e) => setLibraryKey(e.target.value)}
+                  className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50"
+                >
+                  {libraries.map(library => (
+                    <option key={library.key} value={library.key} className="bg-[#2a2a2a] text-white">
+                      {describeLibrary(library.library)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label htmlFor="title" className="block text-sm font-medium text-default">
                 Title
@@ -219,6 +156,20 @@ export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }:
               />
             </div>
 
+            <div>
+              <label htmlFor="folder" className="block text-sm font-medium text-default">
+                Folder
+              </label>
+              <input
+                type="text"
+                id="folder"
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50 placeholder-gray-400"
+                placeholder="Top level, or a path such as writing/blog"
+              />
+            </div>
+
             <div>
               <label htmlFor="description" className="block text-sm font-medium text-default">
                 Description
@@ -233,41 +184,15 @@ export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }:
               />
             </div>
 
-            <div>
-              <label htmlFor="provider" className="block text-sm font-medium text-default">
-                Provider
-              </label>
-              <select
-                id="provider"
-                value={provider}
-                onChange={(e) => handleProviderChange(e.target.value as Provider)}
-                className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50"
-              >
-                {Object.entries(PROVIDERS).map(([key, value]) => (
-                  <option key={key} value={key} className="bg-[#2a2a2a] text-white">
-                    {value.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label htmlFor="model" className="block text-sm font-medium text-default">
-                Model
-              </label>
-              <select
-                id="model"
-                value={model}
-                onChange={(e) => setModel(e.target.value)}
-                className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50"
-              >
-                {PROVIDERS[provider].models.map((model) => (
-                  <option key={model} value={model} className="bg-[#2a2a2a] text-white">
-                    {model}
-                  </option>
-                ))}
-              </select>
-            </div>
+            <ProviderModelFields
+              registry={registry}
+              provider={provider}
+              model={model}
+              onChange={(newProvider, newModel) => {
+                setProvider(newProvider);
+                setModel(newModel);
+              }}
+            />
 
             <div>
               <label htmlFor="tags" className="block text-sm font-medium text-default">
@@ -283,21 +208,25 @@ export default function CreatePromptModal({ isOpen, onClose, onPromptCreated }:
               />
             </div>
 
-            <div>
-              <label htmlFor="prompt" className="block text-sm font-medium text-default">
-                Prompt
-              </label>
-              <textarea
-                id="prompt"
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                rows={5}
-                className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50 placeholder-gray-400 font-mono"
-                required
-                placeholder="Enter your prompt text"
+            <div className="space-y-1">
+              <PromptContentField id="prompt" format={format} content={prompt} onChange={handlePromptChange} />
+              <TokenEstimate
+                registry={registry}
+                provider={provider}
+                model={model}
+                format={format}
+                content={prompt}
+                note={extractIncludes(prompt).length > 0 ? 'includes not counted' : undefined}
               />
             </div>
 
+            <div>
+              <span className="block text-sm font-medium text-default mb-1">
+                Variables
+              </span>
+              <VariablesEditor variables={variables} onChange={setVariables} />
+            </div>
+
             <div className="mt-6 flex justify-end space-x-3">
               <button
                 type="button"
@@ -0,0 +1,27 @@
+'use client';
+
+import { ProviderRegistry, findModel } from '../lib/modelRegistry';
+import { Provider } from '../types/prompt';
+
+interface DeprecatedModelBadgeProps {
+  registry: ProviderRegistry;
+  provider: Provider;
+  model: string;
+}
+
+// Warns about prompts pinned to a model the registry marks deprecated
+export default function DeprecatedModelBadge({ registry, provider, model }: DeprecatedModelBadgeProps) {
+  const info = findModel(registry, provider, model);
+  if (!info?.deprecated) {
+    return null;
+  }
+
+  return (
+    <span
+      className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800"
+      title={info.replacedBy ? `${model} is deprecated; consider ${info.replacedBy}` : `${model} is deprecated`}
+    >
+      Deprecated
+    </span>
+  );
+}
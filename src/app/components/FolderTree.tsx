@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { FolderNode } from '../lib/folders';
+import { parseFolder } from '../lib/validation';
+
+interface FolderTreeProps {
+  tree: FolderNode;
+  selected: string;
+  onSelect: (folder: string) => void;
+  // A prompt card was dropped on a folder
+  onDrop: (folder: string) => void;
+  // Whether a prompt card is being dragged, so folders show they take drops
+  isDragging: boolean;
+  onCreateFolder: (folder: string) => void;
+}
+
+// The library's folders with their prompt counts; picking one scopes the list, dropping a card on one moves the prompt
+export default function FolderTree({ tree, selected, onSelect, onDrop, isDragging, onCreateFolder }: FolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const toggle = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // New folders go inside the selected one
+  const createFolder = () => {
+    try {
+      const name = parseFolder(newFolder ?? '');
+      if (name === '') return;
+      const folder = selected ? `${selected}/${name}` : name;
+      onCreateFolder(folder);
+      onSelect(folder);
+      setNewFolder(null);
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isOpen = !collapsed.has(node.path);
+    return (
+      <li key={node.path}>
+        <div
+          onDragOver={(e) => {
+            if (!isDragging) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            setDropTarget(node.path);
+          }}
+          onDragLeave={() => setDropTarget(prev => prev === node.path ? null : prev)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDropTarget(null);
+            onDrop(node.path);
+          }}
+          className={`flex items-center gap-1 rounded px-1 ${
+            dropTarget === node.path
+              ? 'bg-green-100 ring-1 ring-[#238636]'
+              : selected === node.path
+                ? 'bg-gray-200'
+                : 'hover:bg-gray-100'
+          }`}
+          style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+        >
+          <button
+            type="button"
+            onClick={() => toggle(node.path)}
+            className={`w-4 text-xs text-black/60 ${node.children.length === 0 || node.path === '' ? 'invisible' : ''}`}
+            aria-label={isOpen ? `Collapse ${node.name}` : `Expand ${node.name}`}
+          >
+            {isOpen ? '▾' : '▸'}
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(node.path)}
+            className="flex-1 flex justify-between gap-2 py-1 text-left text-sm text-black min-w-0"
+          >
+            <span className="truncate">{node.path === '' ? 'All prompts' : node.name}</span>
+            <span className="text-black/50">{node.count}</span>
+          </button>
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <ul>
+            {node.children.map(child => renderNode(child, node.path === '' ? depth : depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="bg-white p-2 rounded-lg shadow border border-gray-200">
+      <ul>{renderNode(tree, 0)}</ul>
+      {newFolder === null ? (
+        <button
+          type="button"
+          onClick={() => setNewFolder('')}
+          className="mt-2 w-full px-2 py-1 text-sm border border-gray-300 rounded-md text-black hover:bg-gray-50"
+        >
+          New Folder
+        </button>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createFolder();
+          }}
+          className="mt-2 space-y-1"
+        >
+          <input
+            type="text"
+            autoFocus
+            value={newFolder}
+            onChange={(e) => setNewFolder(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                setNewFolder(null);
+                setError('');
+              }
+            }}
+            placeholder={selected ? `Folder in ${selected}` : 'Folder name'}
+            className="w-full px-2 py-1 text-sm rounded-md border border-gray-300 text-black"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </form>
+      )}
+      {isDragging && (
+        <p className="mt-2 text-xs text-black/60">Drop on a folder to move the prompt there.</p>
+      )}
+    </nav>
+  );
+}
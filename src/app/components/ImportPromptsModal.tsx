@@ -0,0 +1,277 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Prompt } from '../types/prompt';
+import {
+  FieldMapping,
+  IMPORT_FIELDS,
+  ImportRecord,
+  TRANSFER_FORMATS,
+  TransferFormat,
+  formatFromFilename,
+  guessMapping,
+  planImport,
+  readImportFile,
+  recordKeys,
+} from '../lib/importExport';
+import { RefUpdateRejectedError } from '../lib/storage/errors';
+import { describeLibrary } from '../lib/storage/library';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
+
+interface ImportPromptsModalProps {
+  onClose: () => void;
+  // Libraries to import into; the first is preselected
+  libraries: LibrarySource[];
+  // The prompts already in a library, for spotting duplicates
+  existingPrompts: (library: LibrarySource) => Prompt[];
+  onImported: () => void;
+}
+
+interface LoadedFile {
+  file: File;
+  records: ImportRecord[];
+}
+
+export default function ImportPromptsModal({ onClose, libraries, existingPrompts, onImported }: ImportPromptsModalProps) {
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping>(() => guessMapping([]));
+  const [libraryKey, setLibraryKey] = useState(libraries[0]?.key ?? '');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const target = libraries.find(library => library.key === libraryKey) ?? libraries[0];
+  const keys = useMemo(() => recordKeys(loaded?.records ?? []), [loaded]);
+  const plan = useMemo(
+    () => loaded && target ? planImport(loaded.records, mapping, existingPrompts(target)) : [],
+    [loaded, mapping, target, existingPrompts]
+  );
+  const selected = plan.filter(entry => entry.input && (includeDuplicates || !entry.duplicateOf));
+  const duplicates = plan.filter(entry => entry.input && entry.duplicateOf).length;
+  const invalid = plan.filter(entry => entry.error).length;
+
+  const readFile = async (file: File, fileFormat: TransferFormat) => {
+    setIsReading(true);
+    setError('');
+    try {
+      const records = await readImportFile(file, fileFormat);
+      setLoaded({ file, records });
+      setMapping(guessMapping(recordKeys(records)));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setLoaded(null);
+      setError(`Could not read ${file.name} as ${TRANSFER_FORMATS[fileFormat].label}: ${(err as Error).message}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const detected = formatFromFilename(file.name) ?? format;
+    setFormat(detected);
+    readFile(file, detected);
+  };
+
+  const handleImport = async () => {
+    if (!loaded || !target || selected.length === 0) return;
+    setIsImporting(true);
+    setError('');
+    try {
+      await target.storage.createPrompts(
+        selected.map(entry => entry.input!),
+        `Import ${selected.length} ${selected.length === 1 ? 'prompt' : 'prompts'} from ${loaded.file.name}`
+      );
+      onImported();
+      onClose();
+    } catch (err) {
+      console.error('Error importing prompts:', err);
+      setError(
+        err instanceof RefUpdateRejectedError
+          ? err.message
+          : 'Failed to import prompts. Nothing was saved. Please try again.'
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50">
+      <div
+        className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center"
+        onClick={() => onClose()}
+      >
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-black/75"></div>
+        </div>
+
+        <div
+          className="relative inline-block w-full max-w-3xl p-6 my-8 overflow-hidden text-left align-middle transition-all transform bg-card shadow-xl rounded-lg border border-default"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 className="text-lg font-medium leading-6 text-default mb-4">
+            Import Prompts
+          </h3>
+
+          {error && (
+            <div className="mb-4 p-4 bg-error/10 text-error rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="import-file" className="block text-sm font-medium text-default">
+                  File
+                </label>
+                <input
+                  type="file"
+                  id="import-file"
+                  accept=".json,.yaml,.yml,.csv,.zip,.md,.markdown"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="mt-1 block w-full text-sm text-default"
+                />
+                <p className="text-xs text-secondary mt-1">
+                  JSON, YAML, CSV, or a zip of Markdown files with front matter
+                </p>
+              </div>
+              <div>
+                <label htmlFor="import-format" className="block text-sm font-medium text-default">
+                  Format
+                </label>
+                <select
+                  id="import-format"
+                  value={format}
+                  onChange={(e) => {
+                    const next = e.target.value as TransferFormat;
+                    setFormat(next);
+                    if (loaded) readFile(loaded.file, next);
+                  }}
+                  className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+                >
+                  {Object.entries(TRANSFER_FORMATS).map(([key, { label }]) => (
+                    <option key={key} value={key} className="bg-[#2a2a2a] text-white">
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {isReading && <p className="text-sm text-secondary">Reading file...</p>}
+
+            {loaded && (
+              <>
+                <div>
+                  <h4 className="text-sm font-medium text-default mb-2">Fields</h4>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {IMPORT_FIELDS.map(field => (
+                      <label key={field} className="flex items-center justify-between text-sm text-default">
+                        <span className="capitalize">{field}</span>
+                        <select
+                          value={mapping[field]}
+                          onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value }))}
+                          className="ml-2 w-40 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white text-sm"
+                        >
+                          <option value="" className="bg-[#2a2a2a] text-white">(not mapped)</option>
+                          {keys.map(key => (
+                            <option key={key} value={key} className="bg-[#2a2a2a] text-white">
+                              {key}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {libraries.length > 1 && (
+                  <div>
+                    <label htmlFor="import-library" className="block text-sm font-medium text-default">
+                      Library
+                    </label>
+                    <select
+                      id="import-library"
+                      value={target?.key}
+                      onChange={(e) => setLibraryKey(e.target.value)}
+                      className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+                    >
+                      {libraries.map(library => (
+                        <option key={library.key} value={library.key} className="bg-[#2a2a2a] text-white">
+                          {describeLibrary(library.library)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-medium text-default">
+                      Preview · {plan.length} found, {duplicates} duplicate, {invalid} invalid
+                    </h4>
+                    <label className="flex items-center text-sm text-default">
+                      <input
+                        type="checkbox"
+                        checked={includeDuplicates}
+                        onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Import duplicates too
+                    </label>
+                  </div>
+                  <div className="max-h-72 overflow-y-auto rounded-md border border-default">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {plan.map(entry => (
+                          <tr key={entry.row} className="border-b border-default last:border-0">
+                            <td className="px-2 py-1 text-secondary w-12">{entry.row}</td>
+                            <td className="px-2 py-1 text-default">{entry.title}</td>
+                            <td className="px-2 py-1 text-secondary">
+                              {entry.input && `${entry.input.provider} · ${entry.input.model}`}
+                            </td>
+                            <td className={`px-2 py-1 ${entry.error ? 'text-error' : entry.duplicateOf ? 'text-secondary' : 'text-success'}`}>
+                              {entry.error
+                                ? entry.error
+                                : entry.duplicateOf
+                                  ? `Duplicate of ${entry.duplicateOf}${includeDuplicates ? '' : ', skipped'}`
+                                  : 'Ready'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || selected.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+            >
+              {isImporting
+                ? 'Importing...'
+                : `Import ${selected.length} ${selected.length === 1 ? 'prompt' : 'prompts'} in one commit`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
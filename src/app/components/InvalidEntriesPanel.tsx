@@ -0,0 +1,44 @@
+'use client';
+
+import { describeLibrary } from '../lib/storage/library';
+import { InvalidEntry } from '../lib/storage/types';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
+
+export interface LibraryInvalidEntry {
+  source: LibrarySource;
+  entry: InvalidEntry;
+}
+
+interface InvalidEntriesPanelProps {
+  entries: LibraryInvalidEntry[];
+  // Whether to say which library each file is in
+  showLibrary: boolean;
+}
+
+// Files left out of the list, so one broken file does not hide the rest of the library
+export default function InvalidEntriesPanel({ entries, showLibrary }: InvalidEntriesPanelProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="p-3 rounded-md bg-yellow-50 text-yellow-800 text-sm">
+      <summary className="cursor-pointer">
+        {entries.length} {entries.length === 1 ? 'file' : 'files'} could not be read
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {entries.map(({ source, entry }) => (
+          <li key={`${source.key}:${entry.path}`}>
+            <span className="font-mono">{entry.path}</span>
+            {showLibrary && <span className="ml-2 text-yellow-700">{describeLibrary(source.library)}</span>}
+            <ul className="ml-4 list-disc list-inside">
+              {entry.errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
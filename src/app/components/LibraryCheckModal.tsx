@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RefUpdateRejectedError } from '../lib/storage/errors';
+import { describeLibrary } from '../lib/storage/library';
+import { LibraryProblem } from '../lib/storage/types';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
+
+interface LibraryCheckModalProps {
+  source: LibrarySource;
+  onClose: () => void;
+  onRepaired: () => void;
+}
+
+const KIND_LABELS: Record<LibraryProblem['kind'], string> = {
+  orphan: 'Orphaned file',
+  leftover: 'Leftover file',
+  'duplicate-id': 'Duplicate id',
+  dangling: 'Dangling entry',
+  invalid: 'Invalid file',
+};
+
+// Every write drops dangling metadata.json entries, so they cannot be left out
+const isIndexProblem = (problem: LibraryProblem) => problem.kind === 'dangling';
+
+export default function LibraryCheckModal({ source, onClose, onRepaired }: LibraryCheckModalProps) {
+  const [problems, setProblems] = useState<LibraryProblem[] | null>(null);
+  // Keys of the file fixes to skip
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const check = async () => {
+    setProblems(null);
+    setError('');
+    try {
+      setProblems(await source.storage.checkIntegrity());
+    } catch (err) {
+      console.error('Error checking library:', err);
+      setError('Failed to check the library. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    check();
+  }, [source]);
+
+  const fixable = (problems ?? []).filter(problem => problem.fix);
+  const selected = fixable.filter(problem => isIndexProblem(problem) || !skipped.includes(problem.key));
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+    setError('');
+    try {
+      const fixed = await source.storage.repair(selected.map(problem => problem.key));
+      setNotice(`Fixed ${fixed} ${fixed === 1 ? 'problem' : 'problems'} in one commit.`);
+      setSkipped([]);
+      onRepaired();
+      await check();
+    } catch (err) {
+      console.error('Error repairing library:', err);
+      setError(
+        err instanceof RefUpdateRejectedError
+          ? err.message
+          : 'Failed to repair the library. Nothing was changed. Please try again.'
+      );
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50">
+      <div
+        className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center"
+        onClick={() => onClose()}
+      >
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-black/75"></div>
+        </div>
+
+        <div
+          className="relative inline-block w-full max-w-3xl p-6 my-8 overflow-hidden text-left align-middle transition-all transform bg-card shadow-xl rounded-lg border border-default"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <h3 className="text-lg font-medium leading-6 text-default mb-1">
+            Check Library
+          </h3>
+          <p className="text-sm text-secondary mb-4">{describeLibrary(source.library)}</p>
+
+          {error && (
+            <div className="mb-4 p-4 bg-error/10 text-error rounded-md">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-4 p-4 bg-[#2a2a2a] text-default rounded-md">
+              {notice}
+            </div>
+          )}
+
+          {!problems && !error && (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent"></div>
+            </div>
+          )}
+
+          {problems?.length === 0 && (
+            <p className="text-success">✓ No problems found</p>
+          )}
+
+          {problems && problems.length > 0 && (
+            <div className="max-h-96 overflow-y-auto rounded-md border border-default">
+              <table className="w-full text-sm">
+                <tbody>
+                  {problems.map(problem => (
+                    <tr key={problem.key} className="border-b border-default last:border-0 align-top">
+                      <td className="px-2 py-2 w-8">
+                        {problem.fix && (
+                          <input
+                            type="checkbox"
+                            checked={isIndexProblem(problem) || !skipped.includes(problem.key)}
+                            disabled={isIndexProblem(problem) || isRepairing}
+                            onChange={(e) => setSkipped(prev => e.target.checked
+                              ? prev.filter(key => key !== problem.key)
+                              : [...prev, problem.key])}
+                            title={isIndexProblem(problem) ? 'Every repair drops dangling entries' : undefined}
+                          />
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-default whitespace-nowrap">{KIND_LABELS[problem.kind]}</td>
+                      <td className="px-2 py-2">
+                        <div className="font-mono text-default">{problem.path}</div>
+                        <div className="text-secondary">{problem.message}</div>
+                        <div className={problem.fix ? 'text-success' : 'text-error'}>
+                          {problem.fix ?? 'Fix by hand'}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleRepair}
+              disabled={isRepairing || selected.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+            >
+              {isRepairing
+                ? 'Repairing...'
+                : `Repair ${selected.length} ${selected.length === 1 ? 'problem' : 'problems'} in one commit`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
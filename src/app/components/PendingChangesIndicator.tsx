@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { PromptInput } from '../types/prompt';
+import { describeLibrary } from '../lib/storage/library';
+import { PendingChange } from '../lib/storage/offlineQueue';
+import { usePendingChanges } from '../lib/storage/usePendingChanges';
+import PromptConflictResolver from './PromptConflictResolver';
+
+interface PendingChangesIndicatorProps {
+  onSynced: () => void;
+}
+
+function describeChange({ operation }: PendingChange): string {
+  switch (operation.kind) {
+    case 'create':
+      return `Create "${operation.input.title}"`;
+    case 'update':
+      return `Update "${operation.input.title}"`;
+    case 'delete':
+      return `Delete "${operation.base?.title ?? operation.id}"`;
+  }
+}
+
+function describeStatus(change: PendingChange): string {
+  if (change.conflict) {
+    return change.conflict.remote
+      ? 'Conflict: the prompt was changed by someone else'
+      : 'Conflict: the prompt was deleted by someone else';
+  }
+  return change.error ? `Failed: ${change.error}` : 'Waiting to sync';
+}
+
+export default function PendingChangesIndicator({ onSynced }: PendingChangesIndicatorProps) {
+  const { pending, isOnline, isSyncing, sync, retry, discard, sourceOf } = usePendingChanges(onSynced);
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolving, setResolving] = useState<PendingChange | null>(null);
+
+  if (pending.length === 0 && isOnline) {
+    return null;
+  }
+
+  const needsAttention = pending.filter(change => change.conflict || change.error).length;
+
+  const resolveWith = async (merged: PromptInput) => {
+    if (!resolving || resolving.operation.kind !== 'update') return;
+    const { operation, conflict } = resolving;
+    setResolving(null);
+    await retry(
+      resolving,
+      conflict?.remote
+        ? { ...operation, input: merged, base: conflict.remote }
+        : { kind: 'create', id: operation.id, filename: operation.base.filename, input: merged }
+    );
+  };
+
+  return (
+    <div className="relative ml-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-1 text-sm rounded-md border ${
+          needsAttention > 0 ? 'border-error text-error' : 'border-default text-default'
+        }`}
+      >
+        {!isOnline && 'Offline · '}
+        {pending.length} {pending.length === 1 ? 'change' : 'changes'} pending
+        {needsAttention > 0 && ` · ${needsAttention} need attention`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-card border border-default rounded-md shadow-lg z-50 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm text-secondary">
+              {isOnline ? 'Changes sync automatically.' : 'Changes will sync when you are back online.'}
+            </span>
+            <button
+              onClick={() => sync()}
+              disabled={!isOnline || isSyncing}
+              className="px-2 py-1 text-xs text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+            >
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </button>
+          </div>
+
+          {pending.length === 0 && <p className="text-sm text-secondary">Nothing to sync.</p>}
+
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {pending.map(change => {
+              const source = sourceOf(change);
+              return (
+                <li key={change.id} className="p-2 rounded-md border border-default">
+                  <div className="text-sm text-default">{describeChange(change)}</div>
+                  {source && <div className="text-xs text-secondary">{describeLibrary(source.library)}</div>}
+                  <div className={`text-xs ${change.conflict || change.error ? 'text-error' : 'text-secondary'}`}>
+                    {describeStatus(change)} · {new Date(change.queuedAt).toLocaleString()}
+                  </div>
+                  <div className="mt-2 flex space-x-2">
+                    {change.conflict && change.operation.kind === 'update' && (
+                      <button
+                        onClick={() => setResolving(change)}
+                        className="px-2 py-1 text-xs text-white bg-button rounded-md hover:opacity-90"
+                      >
+                        Resolve
+                      </button>
+                    )}
+                    {change.conflict && change.operation.kind === 'delete' && (
+                      <button
+                        onClick={() => retry(change, { kind: 'delete', id: change.operation.id })}
+                        className="px-2 py-1 text-xs text-white bg-button rounded-md hover:opacity-90"
+                      >
+                        Delete anyway
+                      </button>
+                    )}
+                    {change.error && (
+                      <button
+                        onClick={() => retry(change)}
+                        disabled={!isOnline}
+                        className="px-2 py-1 text-xs text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    <button
+                      onClick={() => discard(change)}
+                      className="px-2 py-1 text-xs text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {resolving?.operation.kind === 'update' && (
+        <PromptConflictResolver
+          mine={resolving.operation.input}
+          theirs={resolving.conflict?.remote ?? null}
+          isSaving={isSyncing}
+          onSave={resolveWith}
+          onTakeTheirs={() => {
+            discard(resolving);
+            setResolving(null);
+          }}
+          onCancel={() => setResolving(null)}
+        />
+      )}
+    </div>
+  );
+}
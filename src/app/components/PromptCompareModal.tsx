@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { Prompt } from '../types/prompt';
+import { DiffChunk, chunkText, diffChunks } from '../lib/diff';
+import { EDITABLE_FIELDS, formatField } from '../lib/storage/promptStorage';
+
+export interface CompareSide {
+  // A prompt title, or a revision's short sha and date
+  label: string;
+  prompt: Prompt;
+  // Saves edited content as the prompt's current version; left out for past revisions, which are read-only
+  onSave?: (content: string) => Promise<void>;
+}
+
+interface PromptCompareModalProps {
+  left: CompareSide;
+  right: CompareSide;
+  onClose: () => void;
+}
+
+type Side = 'left' | 'right';
+
+const chunkButtonClass = 'mx-1 px-1 text-xs align-middle text-white bg-[#3a3a3a] rounded hover:bg-accent';
+
+// Two prompts, or two versions of one, side by side with their differences marked
+export default function PromptCompareModal({ left, right, onClose }: PromptCompareModalProps) {
+  const [drafts, setDrafts] = useState<Record<Side, string>>({
+    left: left.prompt.content ?? '',
+    right: right.prompt.content ?? '',
+  });
+  const [saving, setSaving] = useState<Side | null>(null);
+  const [error, setError] = useState('');
+
+  const sides: Record<Side, CompareSide> = { left, right };
+  const chunks = diffChunks(drafts.left, drafts.right);
+  const changes = chunks.filter(chunk => chunk.type === 'change').length;
+  const fields = [...EDITABLE_FIELDS, 'format'] as const;
+  const fieldValue = (prompt: Prompt, field: typeof fields[number]) =>
+    field === 'format' ? prompt.format ?? 'text' : formatField(prompt[field]);
+
+  // Copies one changed chunk into the other side's draft
+  const copyChunk = (index: number, to: Side) => {
+    const side = to === 'left' ? 'before' : 'after';
+    setDrafts(prev => ({ ...prev, [to]: chunkText(chunks, side, index) }));
+  };
+
+  const handleSave = async (side: Side) => {
+    const save = sides[side].onSave;
+    if (!save) return;
+    setSaving(side);
+    setError('');
+    try {
+      await save(drafts[side]);
+    } catch (err) {
+      console.error('Error saving compared prompt:', err);
+      setError((err as Error).message || 'Failed to save prompt. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderSide = (side: Side) => {
+    const other: Side = side === 'left' ? 'right' : 'left';
+    const canCopy = Boolean(sides[other].onSave);
+    return chunks.map((chunk: DiffChunk, index) => {
+      if (chunk.type === 'equal') {
+        return <span key={index}>{chunk.value}</span>;
+      }
+      const text = side === 'left' ? chunk.removed : chunk.added;
+      return (
+        <span key={index}>
+          {text && (
+            <span className={side === 'left' ? 'bg-red-900/50 text-red-200' : 'bg-green-900/50 text-green-200'}>
+              {text}
+            </span>
+          )}
+          {canCopy && (
+            <button
+              type="button"
+              onClick={() => copyChunk(index, other)}
+              title={text ? `Copy to the ${other}` : `Remove from the ${other}`}
+              className={chunkButtonClass}
+            >
+              {side === 'left' ? '→' : '←'}
+            </button>
+          )}
+        </span>
+      );
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-[60]">
+      <div
+        className="flex items-center justify-center min-h-screen px-4"
+        onClick={() => onClose()}
+      >
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-black/75"></div>
+        </div>
+
+        <div
+          className="relative bg-card rounded-lg p-6 w-full max-w-5xl my-8 border border-default text-left"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-default">Compare</h3>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+            >
+              Close
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-4 bg-error/10 text-error rounded-md">
+              {error}
+            </div>
+          )}
+
+          <table className="w-full text-sm mb-4 table-fixed">
+            <thead>
+              <tr className="text-left text-default">
+                <th className="w-32 py-1"></th>
+                <th className="py-1 pr-2 font-medium truncate">{left.label}</th>
+                <th className="py-1 font-medium truncate">{right.label}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => {
+                const before = fieldValue(left.prompt, field);
+                const after = fieldValue(right.prompt, field);
+                const changed = before !== after;
+                return (
+                  <tr key={field} className="border-t border-default align-top">
+                    <td className="py-1 capitalize text-secondary">{field}</td>
+                    <td className={`py-1 pr-2 break-words ${changed ? 'text-red-300' : 'text-secondary'}`}>{before || '—'}</td>
+                    <td className={`py-1 break-words ${changed ? 'text-green-300' : 'text-secondary'}`}>{after || '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <p className="text-sm text-secondary mb-2">
+            {changes === 0
+              ? 'The prompt text is the same.'
+              : `${changes} ${changes === 1 ? 'change' : 'changes'} in the prompt text. Use the arrows to copy a change to the other side.`}
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            {(['left', 'right'] as Side[]).map(side => {
+              const original = sides[side].prompt.content ?? '';
+              const isEdited = drafts[side] !== original;
+              return (
+                <div key={side} className="min-w-0">
+                  <pre className="p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono text-sm whitespace-pre-wrap break-words max-h-[28rem] overflow-y-auto">
+                    {renderSide(side)}
+                  </pre>
+                  {sides[side].onSave && isEdited && (
+                    <div className="mt-2 flex justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setDrafts(prev => ({ ...prev, [side]: original }))}
+                        className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+                      >
+                        Reset
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSave(side)}
+                        disabled={saving !== null}
+                        className="px-3 py-1 text-sm font-medium text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+                      >
+                        {saving === side ? 'Saving...' : `Save ${sides[side].label}`}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState } from 'react';
+import { Prompt, PromptInput, Provider } from '../types/prompt';
+import { EDITABLE_FIELDS, EditableField, formatField } from '../lib/storage/promptStorage';
+import { syncVariables } from '../lib/template';
+
+interface PromptConflictResolverProps {
+  mine: PromptInput;
+  // The stored version, or null if it was deleted
+  theirs: Prompt | null;
+  isSaving: boolean;
+  onSave: (merged: PromptInput) => void;
+  onTakeTheirs: () => void;
+  onCancel: () => void;
+}
+
+type MergeField = EditableField | 'content';
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  tags: 'Tags',
+  provider: 'Provider',
+  model: 'Model',
+  content: 'Prompt',
+};
+
+function toValues(prompt: Prompt | PromptInput): Record<MergeField, string> {
+  return {
+    ...Object.fromEntries(EDITABLE_FIELDS.map(field => [field, formatField(prompt[field])])),
+    content: prompt.content ?? '',
+  } as Record<MergeField, string>;
+}
+
+export default function PromptConflictResolver({
+  mine,
+  theirs,
+  isSaving,
+  onSave,
+  onTakeTheirs,
+  onCancel,
+}: PromptConflictResolverProps) {
+  const mineValues = toValues(mine);
+  const theirValues = theirs ? toValues(theirs) : null;
+  const [merged, setMerged] = useState<Record<MergeField, string>>(mineValues);
+
+  const setField = (field: MergeField, value: string) => {
+    setMerged(prev => ({ ...prev, [field]: value }));
+  };
+
+  const saveMerged = () => {
+    onSave({
+      title: merged.title,
+      description: merged.description,
+      tags: merged.tags.split(',').map(tag => tag.trim()),
+      provider: merged.provider as Provider,
+      model: merged.model,
+      // The text is merged as it is stored, so it keeps the format of the edit
+      format: mine.format,
+      content: merged.content,
+      // Settings from either side survive for placeholders the merged content still uses
+      variables: syncVariables(merged.content, [...(mine.variables ?? []), ...(theirs?.variables ?? [])]),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-[60]">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-black/75"></div>
+        </div>
+
+        <div className="relative bg-card rounded-lg p-6 w-full max-w-4xl my-8 border border-default">
+          <h3 className="text-lg font-medium text-default mb-2">Resolve Conflict</h3>
+
+          {!theirValues ? (
+            <p className="text-secondary mb-6">
+              This prompt was deleted by someone else while you were editing it. You can save your
+              version as a new prompt or discard your changes.
+            </p>
+          ) : (
+            <>
+              <p className="text-secondary mb-4">
+                Someone else changed this prompt while you were editing it. Pick a side for each
+                changed field, or edit the merged value by hand.
+              </p>
+
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                {(Object.keys(FIELD_LABELS) as MergeField[]).map(field => {
+                  const conflicting = mineValues[field] !== theirValues[field];
+                  return (
+                    <div key={field} className={conflicting ? 'p-3 rounded-md border border-error/50' : ''}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-default">{FIELD_LABELS[field]}</span>
+                        {conflicting && (
+                          <div className="flex space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => setField(field, mineValues[field])}
+                              className="px-2 py-1 text-xs text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+                            >
+                              Use mine
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setField(field, theirValues[field])}
+                              className="px-2 py-1 text-xs text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+                            >
+                              Use theirs
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      {conflicting && (
+                        <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                          <div>
+                            <span className="text-secondary">Mine</span>
+                            <pre className="mt-1 p-2 rounded-md bg-[#2a2a2a] text-white font-mono whitespace-pre-wrap max-h-40 overflow-y-auto">
+                              {mineValues[field]}
+                            </pre>
+                          </div>
+                          <div>
+                            <span className="text-secondary">Theirs</span>
+                            <pre className="mt-1 p-2 rounded-md bg-[#2a2a2a] text-white font-mono whitespace-pre-wrap max-h-40 overflow-y-auto">
+                              {theirValues[field]}
+                            </pre>
+                          </div>
+                        </div>
+                      )}
+
+                      {field === 'content' ? (
+                        <textarea
+                          value={merged.content}
+                          onChange={(e) => setField('content', e.target.value)}
+                          rows={6}
+                          className="mt-2 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white font-mono"
+                        />
+                      ) : field === 'provider' ? (
+                        <p className="mt-1 text-secondary">{merged.provider}</p>
+                      ) : (
+                        <input
+                          type="text"
+                          value={merged[field]}
+                          onChange={(e) => setField(field, e.target.value)}
+                          className="mt-2 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          <div className="mt-6 flex justify-between">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+            >
+              Back to editing
+            </button>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onTakeTheirs}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+              >
+                {theirValues ? 'Take theirs' : 'Discard mine'}
+              </button>
+              {theirValues && (
+                <button
+                  type="button"
+                  onClick={() => onSave(mine)}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+                >
+                  Keep mine
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={theirValues ? saveMerged : () => onSave(mine)}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : theirValues ? 'Save merged' : 'Save as new prompt'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
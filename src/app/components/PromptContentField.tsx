@@ -0,0 +1,70 @@
+'use client';
+
+import ChatMessagesEditor from './ChatMessagesEditor';
+import { PromptFormat } from '../types/prompt';
+import { flattenChat, parseChat, serializeChat } from '../lib/chat';
+
+interface PromptContentFieldProps {
+  id: string;
+  format: PromptFormat;
+  content: string;
+  onChange: (format: PromptFormat, content: string) => void;
+}
+
+// The prompt text, edited as one block or, for chat prompts, as a list of messages
+export default function PromptContentField({ id, format, content, onChange }: PromptContentFieldProps) {
+  const switchFormat = (next: PromptFormat) => {
+    if (next === format) return;
+    if (next === 'chat') {
+      // Existing text becomes the first user message
+      onChange(next, serializeChat(content.trim()
+        ? [{ role: 'user', content }]
+        : [{ role: 'system', content: '' }, { role: 'user', content: '' }]));
+    } else {
+      onChange(next, flattenChat(parseChat(content)));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label htmlFor={id} className="block text-sm font-medium text-default">
+          Prompt
+        </label>
+        <div className="flex text-xs" role="group" aria-label="Prompt format">
+          {(['text', 'chat'] as PromptFormat[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => switchFormat(option)}
+              aria-pressed={format === option}
+              className={`px-2 py-1 border border-[#3a3a3a] first:rounded-l-md last:rounded-r-md ${
+                format === option ? 'bg-[#3a3a3a] text-white' : 'bg-[#2a2a2a] text-secondary hover:text-white'
+              }`}
+            >
+              {option === 'text' ? 'Text' : 'Chat messages'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {format === 'chat' ? (
+        <div id={id} className="mt-1">
+          <ChatMessagesEditor
+            messages={parseChat(content)}
+            onChange={(messages) => onChange('chat', serializeChat(messages))}
+          />
+        </div>
+      ) : (
+        <textarea
+          id={id}
+          value={content}
+          onChange={(e) => onChange('text', e.target.value)}
+          rows={5}
+          className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50 placeholder-gray-400 font-mono"
+          required
+          placeholder="Enter your prompt text"
+        />
+      )}
+    </div>
+  );
+}
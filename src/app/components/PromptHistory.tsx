@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PromptMetadata } from '../types/prompt';
+import { diffLines } from '../lib/diff';
+import { PromptRevision, PromptStorage } from '../lib/storage/types';
+import PromptCompareModal, { CompareSide } from './PromptCompareModal';
+
+interface PromptHistoryProps {
+  prompt: PromptMetadata;
+  storage: PromptStorage;
+  onRestore: (revision: PromptRevision, content: string) => Promise<void>;
+  isRestoring: boolean;
+  // Saves content edited next to the newest revision in the side-by-side view
+  onSaveContent?: (content: string) => Promise<void>;
+}
+
+const COMPARED_FIELDS = ['title', 'description', 'tags', 'provider', 'model', 'filename'] as const;
+
+function formatField(value: PromptMetadata[typeof COMPARED_FIELDS[number]]): string {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+export default function PromptHistory({ prompt, storage, onRestore, isRestoring, onSaveContent }: PromptHistoryProps) {
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+  const [contents, setContents] = useState<Record<string, string | null>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [baseSha, setBaseSha] = useState('');
+  const [targetSha, setTargetSha] = useState('');
+  const [isSideBySide, setIsSideBySide] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        const history = await storage.history(prompt);
+        setRevisions(history);
+        setTargetSha(history[0]?.sha ?? '');
+        setBaseSha(history[1]?.sha ?? history[0]?.sha ?? '');
+      } catch (err) {
+        console.error('Error fetching prompt history:', err);
+        setError('Failed to load history. Please try again later.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [storage, prompt.id]);
+
+  useEffect(() => {
+    const missing = revisions.filter(
+      r => (r.sha === baseSha || r.sha === targetSha) && !(r.sha in contents)
+    );
+    if (missing.length === 0) return;
+
+    Promise.all(
+      missing.map(async revision => [revision.sha, await storage.readRevision(revision)] as const)
+    )
+      .then(entries => setContents(prev => ({ ...prev, ...Object.fromEntries(entries) })))
+      .catch(err => {
+        console.error('Error fetching revision content:', err);
+        setError('Failed to load revision content.');
+      });
+  }, [baseSha, targetSha, revisions]);
+
+  const handleRestore = async (revision: PromptRevision) => {
+    const content = revision.sha in contents
+      ? contents[revision.sha]
+      : await storage.readRevision(revision);
+
+    if (content === null) {
+      setError('The prompt file is missing at this revision and cannot be restored.');
+      return;
+    }
+    await onRestore(revision, content);
+  };
+
+  // Only the newest revision can be edited, as saving makes a new one on top of it
+  const compareSide = (revision: PromptRevision): CompareSide => ({
+    label: `${revision.sha.slice(0, 7)} · ${new Date(revision.date).toLocaleDateString()}`,
+    prompt: { ...revision.metadata, content: contents[revision.sha] ?? '' },
+    onSave: revision.sha === revisions[0]?.sha && onSaveContent
+      ? async content => {
+        await onSaveContent(content);
+        setIsSideBySide(false);
+      }
+      : undefined,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[120px]">
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent"></div>
+      </div>
+    );
+  }
+
+  const base = revisions.find(r => r.sha === baseSha);
+  const target = revisions.find(r => r.sha === targetSha);
+  const baseContent = contents[baseSha];
+  const targetContent = contents[targetSha];
+  const contentLoaded = baseSha in contents && targetSha in contents;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-error/10 text-error rounded-md">
+          {error}
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <p className="text-secondary">No history found for this prompt.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-[#3a3a3a] border border-[#3a3a3a] rounded-md max-h-60 overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li key={revision.sha} className="flex items-center justify-between gap-2 p-2 text-sm">
+                <div className="min-w-0">
+                  {revision.url ? (
+                    <a
+                      href={revision.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-accent hover:underline"
+                    >
+                      {revision.sha.slice(0, 7)}
+                    </a>
+                  ) : (
+                    <span className="font-mono text-accent">{revision.sha.slice(0, 7)}</span>
+                  )}
+                  <span className="ml-2 text-default truncate">{revision.message.split('\n')[0]}</span>
+                  <div className="text-secondary">
+                    {revision.author} · {new Date(revision.date).toLocaleString()}
+                  </div>
+                </div>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision)}
+                    disabled={isRestoring}
+                    className="shrink-0 px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+                  >
+                    {isRestoring ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-default">Compare</span>
+            <select
+              value={baseSha}
+              onChange={(e) => setBaseSha(e.target.value)}
+              className="rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+            >
+              {revisions.map(r => (
+                <option key={r.sha} value={r.sha} className="bg-[#2a2a2a] text-white">
+                  {r.sha.slice(0, 7)} · {new Date(r.date).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <span className="text-default">→</span>
+            <select
+              value={targetSha}
+              onChange={(e) => setTargetSha(e.target.value)}
+              className="rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+            >
+              {revisions.map(r => (
+                <option key={r.sha} value={r.sha} className="bg-[#2a2a2a] text-white">
+                  {r.sha.slice(0, 7)} · {new Date(r.date).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setIsSideBySide(true)}
+              disabled={!contentLoaded}
+              className="ml-auto px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+            >
+              Open side by side
+            </button>
+          </div>
+
+          {isSideBySide && base && target && contentLoaded && (
+            <PromptCompareModal
+              left={compareSide(base)}
+              right={compareSide(target)}
+              onClose={() => setIsSideBySide(false)}
+            />
+          )}
+
+          {base && target && (
+            <div className="space-y-2">
+              {COMPARED_FIELDS
+                .filter(field => formatField(base.metadata[field]) !== formatField(target.metadata[field]))
+                .map(field => (
+                  <div key={field} className="text-sm">
+                    <span className="font-medium text-default">{field}: </span>
+                    <span className="text-error line-through">{formatField(base.metadata[field])}</span>
+                    <span className="text-default"> → </span>
+                    <span className="text-success">{formatField(target.metadata[field])}</span>
+                  </div>
+                ))}
+
+              {!contentLoaded ? (
+                <div className="flex justify-center py-4">
+                  <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-accent"></div>
+                </div>
+              ) : (
+                <pre className="p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono text-sm whitespace-pre-wrap max-h-80 overflow-y-auto">
+                  {diffLines(baseContent ?? '', targetContent ?? '').map((part, index) => (
+                    <div
+                      key={index}
+                      className={
+                        part.type === 'added'
+                          ? 'bg-green-900/40 text-green-300'
+                          : part.type === 'removed'
+                            ? 'bg-red-900/40 text-red-300'
+                            : ''
+                      }
+                    >
+                      {part.type === 'added' ? '+ ' : part.type === 'removed' ? '- ' : '  '}
+                      {part.value}
+                    </div>
+                  ))}
+                </pre>
+              )}
+              {contentLoaded && (baseContent === null || targetContent === null) && (
+                <p className="text-sm text-secondary">
+                  The prompt file was not present at one of these revisions.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
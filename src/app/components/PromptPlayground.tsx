@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import VariableFields from './VariableFields';
+import { Prompt } from '../types/prompt';
+import { isChat, parseChat } from '../lib/chat';
+import { ApiStyle } from '../lib/modelRegistry';
+import { initialValues, renderTemplate, validateValues } from '../lib/template';
+import { loadApiKey, saveApiKey } from '../lib/playground/apiKeys';
+import { runPlayground } from '../lib/playground/client';
+
+interface PromptPlaygroundProps {
+  prompt: Prompt;
+  providerName: string;
+  // How a provider from the library's providers.json is called; built-in providers need none
+  api?: ApiStyle;
+}
+
+interface RunStats {
+  firstTokenMs?: number;
+  totalMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export default function PromptPlayground({ prompt, providerName, api }: PromptPlaygroundProps) {
+  const variables = prompt.variables ?? [];
+  const [values, setValues] = useState<Record<string, string>>(() => initialValues(variables));
+  const [apiKey, setApiKey] = useState('');
+  const [output, setOutput] = useState('');
+  const [stats, setStats] = useState<RunStats>({});
+  const [error, setError] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setApiKey(loadApiKey(prompt.provider));
+  }, [prompt.provider]);
+
+  // Stop a run in flight when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const errors = validateValues(variables, values);
+  const rendered = renderTemplate(prompt.content || '', values);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError('');
+    setOutput('');
+    setStats({});
+    saveApiKey(prompt.provider, apiKey);
+
+    const startedAt = performance.now();
+    try {
+      const events = runPlayground(
+        {
+          provider: prompt.provider,
+          api,
+          model: prompt.model,
+          prompt: rendered,
+          ...(isChat(prompt) ? { messages: parseChat(rendered) } : {}),
+          apiKey,
+        },
+        controller.signal
+      );
+      for await (const event of events) {
+        if (event.type === 'delta') {
+          setOutput(prev => prev + event.text);
+          setStats(prev => prev.firstTokenMs === undefined
+            ? { ...prev, firstTokenMs: performance.now() - startedAt }
+            : prev);
+        } else if (event.type === 'usage') {
+          setStats(prev => ({ ...prev, inputTokens: event.inputTokens, outputTokens: event.outputTokens }));
+        } else if (event.type === 'error') {
+          setError(event.message);
+        }
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error running prompt:', err);
+        setError((err as Error).message || 'Failed to run prompt. Please try again.');
+      }
+    } finally {
+      setStats(prev => ({ ...prev, totalMs: performance.now() - startedAt }));
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-secondary">
+        Runs against {providerName} <code>{prompt.model}</code>.
+      </p>
+
+      <div>
+        <label htmlFor="api-key" className="block text-sm font-medium text-default">
+          {providerName} API Key
+        </label>
+        <input
+          type="password"
+          id="api-key"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          autoComplete="off"
+          placeholder="Stored in this browser only"
+          className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white placeholder-gray-400"
+        />
+      </div>
+
+      <VariableFields
+        variables={variables}
+        values={values}
+        errors={errors}
+        onChange={(name, value) => setValues(prev => ({ ...prev, [name]: value }))}
+      />
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || Object.keys(errors).length > 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-[#238636] rounded-md hover:bg-[#2ea043] disabled:opacity-50"
+        >
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+        {isRunning && (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+          >
+            Stop
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-error/10 text-error rounded-md">
+          {error}
+        </div>
+      )}
+
+      {(output || isRunning) && (
+        <pre className="p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono whitespace-pre-wrap max-h-96 overflow-y-auto">
+          {output}
+        </pre>
+      )}
+
+      {stats.totalMs !== undefined && (
+        <div className="flex flex-wrap gap-4 text-sm text-secondary">
+          {stats.firstTokenMs !== undefined && (
+            <span>First token: {Math.round(stats.firstTokenMs)} ms</span>
+          )}
+          <span>Total: {Math.round(stats.totalMs)} ms</span>
+          {stats.inputTokens !== undefined && <span>Input tokens: {stats.inputTokens}</span>}
+          {stats.outputTokens !== undefined && <span>Output tokens: {stats.outputTokens}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import ChatTranscript from './ChatTranscript';
+import VariableFields from './VariableFields';
+import { PromptFormat, PromptVariable } from '../types/prompt';
+import { isChat, parseChat } from '../lib/chat';
+import { initialValues, renderTemplate, validateValues } from '../lib/template';
+
+interface PromptTemplateFormProps {
+  content: string;
+  format?: PromptFormat;
+  variables: PromptVariable[];
+}
+
+export default function PromptTemplateForm({ content, format, variables }: PromptTemplateFormProps) {
+  const [values, setValues] = useState<Record<string, string>>(() => initialValues(variables));
+  const [copied, setCopied] = useState(false);
+
+  const errors = validateValues(variables, values);
+  const rendered = renderTemplate(content, values);
+  const isComplete = Object.keys(errors).length === 0;
+
+  const setValue = (name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(rendered);
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <VariableFields variables={variables} values={values} errors={errors} onChange={setValue} />
+
+      {isChat({ format }) ? (
+        <div>
+          <h4 className="text-sm font-medium text-default mb-1">Rendered Prompt</h4>
+          <ChatTranscript messages={parseChat(rendered)} />
+        </div>
+      ) : (
+        <div>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-default">Rendered Prompt</h4>
+            <button
+              type="button"
+              onClick={handleCopy}
+              disabled={!isComplete}
+              className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <pre className="mt-1 p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono whitespace-pre-wrap">
+            {rendered}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,26 @@
 'use client';
 
-import { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { useState, useEffect, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { useSession } from 'next-auth/react';
 import ViewEditPromptModal from './ViewEditPromptModal';
+import ImportPromptsModal from './ImportPromptsModal';
+import InvalidEntriesPanel, { LibraryInvalidEntry } from './InvalidEntriesPanel';
+import DeprecatedModelBadge from './DeprecatedModelBadge';
+import PromptCompareModal, { CompareSide } from './PromptCompareModal';
+import FolderTree from './FolderTree';
+import { Prompt, PromptInput, Provider } from '../types/prompt';
+import { describeLibrary } from '../lib/storage/library';
+import { PromptConflictError } from '../lib/storage/errors';
+import { promptFolder } from '../lib/storage/promptFile';
+import { buildFolderTree, isInFolder } from '../lib/folders';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
+import { buildSearchIndex, highlight, HighlightPart, searchPrompts, snippet } from '../lib/search';
+import { exportPrompts, TRANSFER_FORMATS, TransferFormat } from '../lib/importExport';
+import { BUILTIN_PROVIDERS, ProviderRegistry, providerName } from '../lib/modelRegistry';
+import { promptText } from '../lib/chat';
+import { syncVariables } from '../lib/template';
 
-type Provider = 'openai' | 'anthropic' | 'google' | 'xai' | 'meta' | 'mistral';
-
-interface Prompt {
-  id: string;
-  title: string;
-  description: string;
-  tags: string[];
-  provider: Provider;
-  model: string;
-  filename: string;
-  content?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-type SortField = 'title' | 'updatedAt';
+type SortField = 'relevance' | 'title' | 'updatedAt';
 type SortOrder = 'asc' | 'desc';
 
 export interface PromptsListRef {
@@ -27,88 +28,121 @@ export interface PromptsListRef {
 }
 
 interface PromptsListProps {
-  onCreatePrompt: () => void;
+  // The libraries listed together; cards say which one a prompt is from when there are several
+  sources: LibrarySource[];
+  // Every open library, as targets for copying and moving prompts
+  libraries: LibrarySource[];
+  // Only the list on screen keeps its search in the URL
+  isActive: boolean;
+  // Called with the folder selected in the sidebar, where the new prompt goes
+  onCreatePrompt: (folder: string) => void;
   isCreateDisabled: boolean;
 }
 
-const PROVIDERS: Record<Provider, { name: string }> = {
-  openai: { name: 'OpenAI' },
-  anthropic: { name: 'Anthropic' },
-  google: { name: 'Google' },
-  xai: { name: 'xAI' },
-  meta: { name: 'Meta' },
-  mistral: { name: 'Mistral' }
-};
+// The list renders a spinner until prompts load, so reading the URL here cannot cause a hydration mismatch
+function initialQuery(): string {
+  return typeof window === 'undefined' ? '' : new URLSearchParams(window.location.search).get('q') ?? '';
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
-const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreatePrompt, isCreateDisabled }, ref) => {
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 text-black rounded-sm">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({
+  sources,
+  libraries,
+  isActive,
+  onCreatePrompt,
+  isCreateDisabled,
+}, ref) => {
   const { data: session } = useSession();
   const [prompts, setPrompts] = useState<Prompt[]>([]);
+  // Which library each loaded prompt came from; ids are only unique within a library
+  const [sourceOf, setSourceOf] = useState(() => new Map<Prompt, LibrarySource>());
+  // Only the first load shows the spinner; later ones keep the list and any open prompt on screen
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  const [selectedPrompt, setSelectedPrompt] = useState<Prompt | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  // Libraries that failed to load while others did
+  const [failed, setFailed] = useState<LibrarySource[]>([]);
+  const [invalidEntries, setInvalidEntries] = useState<LibraryInvalidEntry[]>([]);
+  // Each library's providers, built-in ones plus its providers.json
+  const [registries, setRegistries] = useState(() => new Map<LibrarySource, ProviderRegistry>());
+  // The open prompt, by library and id so it stays open when the list reloads
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState(initialQuery);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isTagsDropdownOpen, setIsTagsDropdownOpen] = useState(false);
   const [isProvidersDropdownOpen, setIsProvidersDropdownOpen] = useState(false);
+  const [isExportDropdownOpen, setIsExportDropdownOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<TransferFormat>('json');
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedProviders, setSelectedProviders] = useState<Provider[]>([]);
-  const [sortField, setSortField] = useState<SortField>('updatedAt');
+  // Up to two prompts picked for comparing, by library and id so they survive a reload
+  const [compareKeys, setCompareKeys] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [selectedFolder, setSelectedFolder] = useState('');
+  // Folders made in the sidebar that hold no prompts yet, since git keeps no empty directories
+  const [newFolders, setNewFolders] = useState<string[]>([]);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState('');
+  const [sortField, setSortField] = useState<SortField>(() => initialQuery() ? 'relevance' : 'updatedAt');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const searchIndex = useMemo(() => buildSearchIndex(prompts), [prompts]);
 
   const fetchPrompts = async () => {
     try {
-      setIsLoading(true);
       setError('');
-      
-      // Fetch metadata.json
-      const metadataResponse = await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
+
+      const results = await Promise.allSettled(sources.map(source =>
+        Promise.all([
+          source.storage.listPrompts(),
+          source.storage.listInvalidEntries(),
+          source.storage.readProviders(),
+        ])
+      ));
+      const loaded = new Map<Prompt, LibrarySource>();
+      const invalid: LibraryInvalidEntry[] = [];
+      const loadedRegistries = new Map<LibrarySource, ProviderRegistry>();
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          const [libraryPrompts, libraryInvalid, libraryProviders] = result.value;
+          libraryPrompts.forEach(prompt => loaded.set(prompt, sources[index]));
+          libraryInvalid.forEach(entry => invalid.push({ source: sources[index], entry }));
+          loadedRegistries.set(sources[index], libraryProviders);
+        } else {
+          console.error(`Error fetching prompts from ${describeLibrary(sources[index].library)}:`, result.reason);
         }
-      );
+      });
 
-      if (!metadataResponse.ok) {
-        throw new Error('Failed to fetch prompts metadata');
+      const failedSources = sources.filter((_, index) => results[index].status === 'rejected');
+      if (sources.length > 0 && failedSources.length === sources.length) {
+        throw new Error('No library could be loaded');
       }
-
-      const metadataData = await metadataResponse.json();
-      const metadata = JSON.parse(atob(metadataData.content));
-      const promptsMetadata = metadata.prompts || [];
-
-      // Fetch content for each prompt
-      const promptsWithContent = await Promise.all(
-        promptsMetadata.map(async (prompt: Prompt) => {
-          try {
-            const contentResponse = await fetch(
-              `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${prompt.filename}`,
-              {
-                headers: {
-                  'Authorization': `Bearer ${session?.accessToken}`,
-                  'Accept': 'application/vnd.github.v3+json',
-                },
-              }
-            );
-
-            if (!contentResponse.ok) {
-              throw new Error(`Failed to fetch content for prompt: ${prompt.title}`);
-            }
-
-            const contentData = await contentResponse.json();
-            return {
-              ...prompt,
-              content: atob(contentData.content),
-            };
-          } catch (err) {
-            console.error(`Error fetching content for prompt ${prompt.title}:`, err);
-            return prompt;
-          }
-        })
-      );
-
-      setPrompts(promptsWithContent);
+      setSourceOf(loaded);
+      setPrompts(Array.from(loaded.keys()));
+      setFailed(failedSources);
+      setInvalidEntries(invalid);
+      setRegistries(loadedRegistries);
     } catch (err) {
       console.error('Error fetching prompts:', err);
       setError('Failed to fetch prompts. Please try again later.');
@@ -125,7 +159,30 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
     if (session?.username && session?.accessToken) {
       fetchPrompts();
     }
-  }, [session?.username, session?.accessToken]);
+  }, [session?.username, session?.accessToken, sources]);
+
+  // Keep the query in the URL so searches can be shared and survive a reload
+  useEffect(() => {
+    if (!isActive) return;
+    const params = new URLSearchParams(window.location.search);
+    if (searchQuery) {
+      params.set('q', searchQuery);
+    } else {
+      params.delete('q');
+    }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+  }, [searchQuery, isActive]);
+
+  const updateSearchQuery = (query: string) => {
+    if (!searchQuery && query) {
+      setSortField('relevance');
+    } else if (!query && sortField === 'relevance') {
+      setSortField('updatedAt');
+      setSortOrder('desc');
+    }
+    setSearchQuery(query);
+  };
 
   const toggleSort = (field: SortField) => {
     if (sortField === field) {
@@ -136,6 +193,92 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
     }
   };
 
+  const keyOf = (prompt: Prompt) => `${sourceOf.get(prompt)?.key}:${prompt.id}`;
+  const selectedPrompt = selectedKey ? prompts.find(prompt => keyOf(prompt) === selectedKey) : undefined;
+  const selectedSource = selectedPrompt ? sourceOf.get(selectedPrompt) : undefined;
+
+  // Picking a third prompt drops the first one picked
+  const toggleCompare = (prompt: Prompt) => {
+    const key = keyOf(prompt);
+    setCompareKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key].slice(-2));
+  };
+
+  // A prompt's stored fields, as input for a write that changes some of them
+  const inputOf = (prompt: Prompt): PromptInput => ({
+    title: prompt.title,
+    description: prompt.description,
+    tags: prompt.tags,
+    provider: prompt.provider,
+    model: prompt.model,
+    format: prompt.format,
+    content: prompt.content ?? '',
+    variables: prompt.variables,
+  });
+
+  const compareSide = (prompt: Prompt): CompareSide => {
+    const source = sourceOf.get(prompt);
+    return {
+      label: sources.length > 1 && source ? `${prompt.title} (${describeLibrary(source.library)})` : prompt.title,
+      prompt,
+      onSave: source && (async content => {
+        await source.storage.updatePrompt(prompt.id, {
+          ...inputOf(prompt),
+          content,
+          variables: syncVariables(content, prompt.variables ?? []),
+        }, { base: prompt });
+        await fetchPrompts();
+      }),
+    };
+  };
+
+  // Moves the dragged prompt into a folder of its library, committed as a rename
+  const moveDragged = async (folder: string) => {
+    const prompt = prompts.find(p => keyOf(p) === draggedKey);
+    const source = prompt && sourceOf.get(prompt);
+    setDraggedKey(null);
+    if (!prompt || !source || promptFolder(prompt.filename) === folder) return;
+
+    setMoveError('');
+    try {
+      await source.storage.updatePrompt(prompt.id, { ...inputOf(prompt), folder }, { base: prompt });
+      await fetchPrompts();
+    } catch (err) {
+      console.error('Error moving prompt:', err);
+      setMoveError(err instanceof PromptConflictError
+        ? err.message
+        : `Failed to move "${prompt.title}". Please try again.`);
+    }
+  };
+
+  // The selected folder stays in the tree after its last prompt moves out
+  const folderTree = useMemo(
+    () => buildFolderTree(prompts, [...newFolders, selectedFolder]),
+    [prompts, newFolders, selectedFolder]
+  );
+  const folderPrompts = prompts.filter(prompt => isInFolder(prompt, selectedFolder));
+
+  const comparedPrompts = compareKeys
+    .map(key => prompts.find(prompt => keyOf(prompt) === key))
+    .filter((prompt): prompt is Prompt => prompt !== undefined);
+
+  const registryOf = (prompt: Prompt): ProviderRegistry => {
+    const source = sourceOf.get(prompt);
+    return (source && registries.get(source)) ?? BUILTIN_PROVIDERS;
+  };
+
+  // Every library's providers, plus any a prompt uses that no registry lists
+  const providerOptions = useMemo(() => {
+    const names = new Map<Provider, string>();
+    const loaded = registries.size > 0 ? Array.from(registries.values()) : [BUILTIN_PROVIDERS];
+    loaded.forEach(registry => Object.values(registry).forEach(({ id, name }) => {
+      if (!names.has(id)) names.set(id, name);
+    }));
+    prompts.forEach(prompt => {
+      if (!names.has(prompt.provider)) names.set(prompt.provider, prompt.provider);
+    });
+    return Array.from(names, ([provider, name]) => ({ provider, name }));
+  }, [registries, prompts]);
+
   const toggleProvider = (provider: Provider) => {
     setSelectedProviders(prev =>
       prev.includes(provider)
@@ -152,24 +295,24 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
     );
   };
 
-  const filteredPrompts = prompts
-    .filter(prompt =>
-      (searchQuery === '' ||
-        prompt.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        prompt.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        prompt.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())))
-    )
-    .filter(prompt =>
+  const searchResults = useMemo(() => searchPrompts(searchIndex, searchQuery), [searchIndex, searchQuery]);
+
+  // Results arrive ranked, so relevance order needs no further sorting
+  const filteredResults = searchResults
+    .filter(({ prompt }) => isInFolder(prompt, selectedFolder))
+    .filter(({ prompt }) =>
       selectedTags.length === 0 ||
       selectedTags.some(tag => prompt.tags.includes(tag))
     )
-    .filter(prompt =>
+    .filter(({ prompt }) =>
       selectedProviders.length === 0 ||
       selectedProviders.includes(prompt.provider)
     )
-    .sort((a, b) => {
+    .sort(({ prompt: a }, { prompt: b }) => {
       let comparison = 0;
-      if (sortField === 'title') {
+      if (sortField === 'relevance') {
+        return 0;
+      } else if (sortField === 'title') {
         comparison = a.title.localeCompare(b.title);
       } else if (sortField === 'updatedAt') {
         comparison = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
@@ -177,6 +320,22 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
       return sortOrder === 'asc' ? comparison : -comparison;
     });
 
+  const exportView = (exported: Prompt[]) => {
+    const { extension } = TRANSFER_FORMATS[exportFormat];
+    const name = sources.length === 1 ? `${sources[0].library.repo}-prompts` : 'prompts';
+    download(exportPrompts(exported, exportFormat), `${name}.${extension}`);
+    setIsExportDropdownOpen(false);
+  };
+
+  const importModal = isImportOpen && (
+    <ImportPromptsModal
+      onClose={() => setIsImportOpen(false)}
+      libraries={sources}
+      existingPrompts={library => prompts.filter(prompt => sourceOf.get(prompt) === library)}
+      onImported={fetchPrompts}
+    />
+  );
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-[200px]">
@@ -193,17 +352,30 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
     );
   }
 
+  const invalidPanel = <InvalidEntriesPanel entries={invalidEntries} showLibrary={sources.length > 1} />;
+
   if (prompts.length === 0) {
     return (
       <div className="text-center py-8">
+        {invalidEntries.length > 0 && <div className="mb-4 text-left">{invalidPanel}</div>}
         <p className="text-black mb-4">No prompts found. Create your first prompt!</p>
-        <button
-          onClick={onCreatePrompt}
-          disabled={isCreateDisabled}
-          className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
-        >
-          Create New Prompt
-        </button>
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => setIsImportOpen(true)}
+            disabled={isCreateDisabled}
+            className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => onCreatePrompt('')}
+            disabled={isCreateDisabled}
+            className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
+          >
+            Create New Prompt
+          </button>
+        </div>
+        {importModal}
       </div>
     );
   }
@@ -215,9 +387,9 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
           <div className="flex-1">
             <input
               type="text"
-              placeholder="Search prompts..."
+              placeholder='Search prompts... e.g. tag:rag provider:anthropic "exact phrase" -draft'
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => updateSearchQuery(e.target.value)}
               className="w-full px-4 py-2 rounded-md bg-[#2a2a2a] border border-[#3a3a3a] text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#238636] focus:border-[#238636]"
             />
           </div>
@@ -226,6 +398,7 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
               onClick={() => {
                 setIsTagsDropdownOpen(!isTagsDropdownOpen);
                 setIsProvidersDropdownOpen(false);
+                setIsExportDropdownOpen(false);
               }}
               className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50"
             >
@@ -234,7 +407,7 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
             {isTagsDropdownOpen && (
               <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-50 max-h-96 overflow-y-auto">
                 <div className="p-2">
-                  {Array.from(new Set(prompts.flatMap(prompt => prompt.tags))).sort().map(tag => (
+                  {Array.from(new Set([...selectedTags, ...folderPrompts.flatMap(prompt => prompt.tags)])).sort().map(tag => (
                     <label key={tag} className="flex items-center p-2 hover:bg-gray-50">
                       <input
                         type="checkbox"
@@ -254,6 +427,7 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
               onClick={() => {
                 setIsProvidersDropdownOpen(!isProvidersDropdownOpen);
                 setIsTagsDropdownOpen(false);
+                setIsExportDropdownOpen(false);
               }}
               className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50"
             >
@@ -262,12 +436,12 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
             {isProvidersDropdownOpen && (
               <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-50">
                 <div className="p-2">
-                  {Object.entries(PROVIDERS).map(([provider, { name }]) => (
+                  {providerOptions.map(({ provider, name }) => (
                     <label key={provider} className="flex items-center p-2 hover:bg-gray-50">
                       <input
                         type="checkbox"
-                        checked={selectedProviders.includes(provider as Provider)}
-                        onChange={() => toggleProvider(provider as Provider)}
+                        checked={selectedProviders.includes(provider)}
+                        onChange={() => toggleProvider(provider)}
                         className="mr-2"
                       />
                       {name}
@@ -281,6 +455,18 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
 
         <div className="flex items-center justify-between">
           <div className="flex gap-2">
+            {searchQuery && (
+              <button
+                onClick={() => setSortField('relevance')}
+                className={`px-4 py-2 border rounded-md ${
+                  sortField === 'relevance'
+                    ? 'bg-black text-white'
+                    : 'bg-white text-black border-gray-300'
+                }`}
+              >
+                Relevance
+              </button>
+            )}
             <button
               onClick={() => toggleSort('title')}
               className={`px-4 py-2 border rounded-md ${
@@ -302,81 +488,234 @@ const PromptsList = forwardRef<PromptsListRef, PromptsListProps>(({ onCreateProm
               Date {sortField === 'updatedAt' && (sortOrder === 'asc' ? '↑' : '↓')}
             </button>
           </div>
-          <button
-            onClick={onCreatePrompt}
-            disabled={isCreateDisabled}
-            className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
-          >
-            Create New Prompt
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsCompareOpen(true)}
+              disabled={comparedPrompts.length !== 2}
+              title="Pick two prompts with their Compare boxes"
+              className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Compare ({comparedPrompts.length}/2)
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => {
+                  setIsExportDropdownOpen(!isExportDropdownOpen);
+                  setIsTagsDropdownOpen(false);
+                  setIsProvidersDropdownOpen(false);
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50"
+              >
+                Export
+              </button>
+              {isExportDropdownOpen && (
+                <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-md shadow-lg z-50 p-2">
+                  {Object.entries(TRANSFER_FORMATS).map(([format, { label }]) => (
+                    <label key={format} className="flex items-center p-2 hover:bg-gray-50 text-black">
+                      <input
+                        type="radio"
+                        name="export-format"
+                        checked={exportFormat === format}
+                        onChange={() => setExportFormat(format as TransferFormat)}
+                        className="mr-2"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                  <div className="flex flex-col gap-2 p-2 border-t border-gray-200">
+                    <button
+                      onClick={() => exportView(prompts)}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-md text-black hover:bg-gray-50"
+                    >
+                      All prompts ({prompts.length})
+                    </button>
+                    <button
+                      onClick={() => exportView(filteredResults.map(({ prompt }) => prompt))}
+                      disabled={filteredResults.length === 0}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-md text-black hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Current view ({filteredResults.length})
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => setIsImportOpen(true)}
+              disabled={isCreateDisabled}
+              className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => onCreatePrompt(selectedFolder)}
+              disabled={isCreateDisabled}
+              className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
+            >
+              Create New Prompt
+            </button>
+          </div>
         </div>
       </div>
 
-      {(isTagsDropdownOpen || isProvidersDropdownOpen) && (
+      {failed.length > 0 && (
+        <div className="p-3 rounded-md bg-red-50 text-red-600 text-sm">
+          Could not load {failed.map(source => describeLibrary(source.library)).join(', ')}. Showing the other libraries.
+        </div>
+      )}
+
+      {invalidPanel}
+
+      {moveError && (
+        <div className="p-3 rounded-md bg-red-50 text-red-600 text-sm">
+          {moveError}
+        </div>
+      )}
+
+      {(isTagsDropdownOpen || isProvidersDropdownOpen || isExportDropdownOpen) && (
         <div
           className="fixed inset-0 z-0"
           onClick={() => {
             setIsTagsDropdownOpen(false);
             setIsProvidersDropdownOpen(false);
+            setIsExportDropdownOpen(false);
           }}
         />
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredPrompts.map((prompt) => (
-          <div
-            key={prompt.id}
-            className="bg-white p-4 rounded-lg shadow border border-gray-200 flex flex-col h-full"
-          >
-            <div className="flex flex-col flex-grow">
-              <button
-                onClick={() => setSelectedPrompt(prompt)}
-                className="text-lg font-semibold text-black hover:underline text-left mb-2"
+      <div className="flex flex-col md:flex-row gap-4 items-start">
+        <aside className="w-full md:w-56 shrink-0">
+          <FolderTree
+            tree={folderTree}
+            selected={selectedFolder}
+            onSelect={setSelectedFolder}
+            onDrop={moveDragged}
+            isDragging={draggedKey !== null}
+            onCreateFolder={folder => setNewFolders(prev => [...prev, folder])}
+          />
+        </aside>
+
+        <div className="flex-1 min-w-0 grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+          {filteredResults.length === 0 && (
+            <p className="text-black/70 col-span-full text-center py-8">
+              {folderPrompts.length === 0
+                ? 'No prompts in this folder yet. Drag prompts here or create one.'
+                : 'No prompts match your search.'}
+            </p>
+          )}
+          {filteredResults.map(({ prompt, terms }) => {
+            const contentSnippet = terms.length > 0 ? snippet(promptText(prompt), terms) : null;
+            const source = sourceOf.get(prompt);
+            const folder = promptFolder(prompt.filename);
+            return (
+              <div
+                key={`${source?.key}:${prompt.id}`}
+                draggable
+                onDragStart={(e) => {
+                  // Firefox only starts a drag that carries data
+                  e.dataTransfer.setData('text/plain', prompt.title);
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedKey(keyOf(prompt));
+                }}
+                onDragEnd={() => setDraggedKey(null)}
+                className={`bg-white p-4 rounded-lg shadow border border-gray-200 flex flex-col h-full cursor-grab ${
+                  draggedKey === keyOf(prompt) ? 'opacity-50' : ''
+                }`}
               >
-                {prompt.title}
-              </button>
-              <p className="text-black/70 mb-4 line-clamp-2">{prompt.description}</p>
-              <div className="mt-auto space-y-2">
-                <div className="flex flex-wrap gap-2">
-                  {prompt.tags.map((tag) => (
-                    <span
-                      key={tag}
-                      className="text-sm text-black bg-gray-100 px-2 py-1 rounded"
-                    >
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-                <div className="flex flex-col gap-1 text-sm text-black/60">
-                  <div className="flex items-center gap-1">
-                    <span className="font-medium">Provider:</span>
-                    {PROVIDERS[prompt.provider]?.name || prompt.provider}
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <span className="font-medium">Model:</span>
-                    {prompt.model}
-                  </div>
-                  <div>
-                    Last updated: {new Date(prompt.updatedAt).toLocaleDateString()}
+                <div className="flex flex-col flex-grow">
+                  {((sources.length > 1 && source) || folder !== selectedFolder) && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {sources.length > 1 && source && (
+                        <span className="text-xs text-black/60 bg-gray-100 px-2 py-0.5 rounded">
+                          {describeLibrary(source.library)}
+                        </span>
+                      )}
+                      {folder !== selectedFolder && (
+                        <span className="text-xs text-black/60 bg-gray-100 px-2 py-0.5 rounded font-mono">
+                          {folder}/
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setSelectedKey(keyOf(prompt))}
+                    className="text-lg font-semibold text-black hover:underline text-left mb-2"
+                  >
+                    <Highlighted parts={highlight(prompt.title, terms)} />
+                  </button>
+                  <p className="text-black/70 mb-4 line-clamp-2">
+                    <Highlighted parts={highlight(prompt.description, terms)} />
+                  </p>
+                  {contentSnippet && (
+                    <p className="text-sm text-black/60 font-mono mb-4 line-clamp-3">
+                      <Highlighted parts={contentSnippet} />
+                    </p>
+                  )}
+                  <div className="mt-auto space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      {prompt.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="text-sm text-black bg-gray-100 px-2 py-1 rounded"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex flex-col gap-1 text-sm text-black/60">
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium">Provider:</span>
+                        {providerName(registryOf(prompt), prompt.provider)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium">Model:</span>
+                        {prompt.model}
+                        <DeprecatedModelBadge registry={registryOf(prompt)} provider={prompt.provider} model={prompt.model} />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>Last updated: {new Date(prompt.updatedAt).toLocaleDateString()}</span>
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={compareKeys.includes(keyOf(prompt))}
+                            onChange={() => toggleCompare(prompt)}
+                          />
+                          Compare
+                        </label>
+                      </div>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          </div>
-        ))}
+            );
+          })}
+        </div>
       </div>
 
-      {selectedPrompt && (
+      {selectedPrompt && selectedSource && (
         <ViewEditPromptModal
           isOpen={true}
           onClose={() => {
-            setSelectedPrompt(null);
+            setSelectedKey(null);
             fetchPrompts();
           }}
           prompt={selectedPrompt}
+          source={selectedSource}
+          libraries={libraries}
+          libraryPrompts={prompts.filter(prompt => sourceOf.get(prompt) === selectedSource)}
           onPromptUpdated={fetchPrompts}
         />
       )}
+
+      {isCompareOpen && comparedPrompts.length === 2 && (
+        <PromptCompareModal
+          left={compareSide(comparedPrompts[0])}
+          right={compareSide(comparedPrompts[1])}
+          onClose={() => setIsCompareOpen(false)}
+        />
+      )}
+
+      {importModal}
     </div>
   );
 });
@@ -0,0 +1,67 @@
+'use client';
+
+import { ProviderRegistry, defaultModel, findModel, modelOptions, providerInfo } from '../lib/modelRegistry';
+import { Provider } from '../types/prompt';
+
+interface ProviderModelFieldsProps {
+  registry: ProviderRegistry;
+  provider: Provider;
+  model: string;
+  onChange: (provider: Provider, model: string) => void;
+}
+
+const SELECT_CLASS = 'mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50';
+
+// The provider and model selects of the prompt forms, offering what the library's registry lists
+export default function ProviderModelFields({ registry, provider, model, onChange }: ProviderModelFieldsProps) {
+  const handleProviderChange = (newProvider: Provider) => {
+    // Keep the model when the new provider offers it too
+    onChange(newProvider, modelOptions(registry, newProvider).includes(model) ? model : defaultModel(registry, newProvider));
+  };
+
+  const providers = Object.values(registry);
+
+  return (
+    <>
+      <div>
+        <label htmlFor="provider" className="block text-sm font-medium text-default">
+          Provider
+        </label>
+        <select
+          id="provider"
+          value={provider}
+          onChange={(e) => handleProviderChange(e.target.value)}
+          className={SELECT_CLASS}
+        >
+          {/* A prompt may name a provider this library does not define */}
+          {!providerInfo(registry, provider) && (
+            <option value={provider} className="bg-[#2a2a2a] text-white">{provider}</option>
+          )}
+          {providers.map(({ id, name }) => (
+            <option key={id} value={id} className="bg-[#2a2a2a] text-white">
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="model" className="block text-sm font-medium text-default">
+          Model
+        </label>
+        <select
+          id="model"
+          value={model}
+          onChange={(e) => onChange(provider, e.target.value)}
+          className={SELECT_CLASS}
+        >
+          {modelOptions(registry, provider, model).map((id) => (
+            <option key={id} value={id} className="bg-[#2a2a2a] text-white">
+              {findModel(registry, provider, id)?.deprecated ? `${id} (deprecated)` : id}
+            </option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+}
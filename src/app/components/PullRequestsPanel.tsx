@@ -0,0 +1,150 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ProposalNeedsUpdateError } from '../lib/storage/errors';
+import { describeLibrary } from '../lib/storage/library';
+import { PULL_REQUESTS_EVENT } from '../lib/storage/review';
+import { CheckState, PullRequestSummary, ReviewState } from '../lib/storage/types';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
+
+interface PullRequestsPanelProps {
+  // Libraries whose proposals are listed; ones without review support are skipped
+  sources: LibrarySource[];
+  onMerged: () => void;
+}
+
+interface ListedPullRequest {
+  source: LibrarySource;
+  pullRequest: PullRequestSummary;
+}
+
+const REVIEW_LABELS: Record<ReviewState, { text: string; className: string }> = {
+  approved: { text: 'Approved', className: 'text-success' },
+  changes_requested: { text: 'Changes requested', className: 'text-error' },
+  pending: { text: 'Review pending', className: 'text-secondary' },
+};
+
+const CHECK_LABELS: Record<CheckState, { text: string; className: string }> = {
+  success: { text: 'Checks passed', className: 'text-success' },
+  failure: { text: 'Checks failed', className: 'text-error' },
+  pending: { text: 'Checks running', className: 'text-secondary' },
+  none: { text: 'No checks', className: 'text-secondary' },
+};
+
+export default function PullRequestsPanel({ sources, onMerged }: PullRequestsPanelProps) {
+  const [pullRequests, setPullRequests] = useState<ListedPullRequest[]>([]);
+  const [error, setError] = useState('');
+  const [merging, setMerging] = useState<number | null>(null);
+  // Pull requests GitHub refused to merge because the library moved on since they were opened
+  const [needsUpdate, setNeedsUpdate] = useState<Set<string>>(() => new Set());
+
+  const fetchPullRequests = useCallback(async () => {
+    const results = await Promise.allSettled(
+      sources.map(async source => source.review
+        ? (await source.review.listPullRequests()).map(pullRequest => ({ source, pullRequest }))
+        : []
+      )
+    );
+    setPullRequests(results.flatMap(result => result.status === 'fulfilled' ? result.value : []));
+
+    const failed = results.filter(result => result.status === 'rejected').length;
+    setError(failed > 0 ? `Could not load pull requests for ${failed} ${failed === 1 ? 'library' : 'libraries'}.` : '');
+  }, [sources]);
+
+  useEffect(() => {
+    fetchPullRequests();
+    window.addEventListener(PULL_REQUESTS_EVENT, fetchPullRequests);
+    return () => window.removeEventListener(PULL_REQUESTS_EVENT, fetchPullRequests);
+  }, [fetchPullRequests]);
+
+  const merge = async ({ source, pullRequest }: ListedPullRequest) => {
+    if (!source.review) return;
+    setMerging(pullRequest.number);
+    setError('');
+    try {
+      await source.review.mergePullRequest(pullRequest);
+      onMerged();
+    } catch (err) {
+      console.error('Error merging pull request:', err);
+      if (err instanceof ProposalNeedsUpdateError) {
+        setNeedsUpdate(prev => new Set(prev).add(`${source.key}#${pullRequest.number}`));
+        setError(err.message);
+      } else {
+        setError(`Could not merge #${pullRequest.number}: ${(err as Error).message}`);
+      }
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  if (pullRequests.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 p-4 bg-secondary rounded-lg border border-default">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-default">Proposed Changes</h3>
+        <button
+          onClick={fetchPullRequests}
+          className="px-2 py-1 text-xs text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-error/10 text-error rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {pullRequests.map(listed => {
+          const { source, pullRequest } = listed;
+          const review = REVIEW_LABELS[pullRequest.reviewState];
+          const checks = CHECK_LABELS[pullRequest.checkState];
+          return (
+            <li
+              key={`${source.key}#${pullRequest.number}`}
+              className="p-3 rounded-md border border-default flex items-center justify-between"
+            >
+              <div>
+                <a
+                  href={pullRequest.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-default hover:underline"
+                >
+                  #{pullRequest.number} {pullRequest.title}
+                </a>
+                <div className="text-xs text-secondary">
+                  {describeLibrary(source.library)} · {pullRequest.author} ·{' '}
+                  {new Date(pullRequest.createdAt).toLocaleDateString()}
+                </div>
+                <div className="text-xs">
+                  <span className={review.className}>{review.text}</span>
+                  <span className="text-secondary"> · </span>
+                  <span className={checks.className}>{checks.text}</span>
+                  {needsUpdate.has(`${source.key}#${pullRequest.number}`) && (
+                    <>
+                      <span className="text-secondary"> · </span>
+                      <span className="text-yellow-500">Needs update</span>
+                    </>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => merge(listed)}
+                disabled={merging !== null}
+                className="ml-4 px-3 py-1 text-sm text-white bg-[#238636] rounded-md hover:bg-[#2ea043] disabled:opacity-50"
+              >
+                {merging === pullRequest.number ? 'Merging...' : 'Merge'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
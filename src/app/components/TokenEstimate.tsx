@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PromptFormat, Provider } from '../types/prompt';
+import { ProviderRegistry, findModel, providerInfo } from '../lib/modelRegistry';
+import { Encoder, countPromptTokens, formatCost, inputCost, loadEncoder } from '../lib/tokens';
+
+interface TokenEstimateProps {
+  registry: ProviderRegistry;
+  provider: Provider;
+  model: string;
+  format: PromptFormat;
+  content: string;
+  // Why the count may fall short, e.g. includes that were not resolved
+  note?: string;
+}
+
+// Above this share of the context window there is little room left for the reply
+const LARGE_CONTEXT_SHARE = 0.5;
+
+// A live token count for the prompt being written, with its input cost and context window use
+export default function TokenEstimate({ registry, provider, model, format, content, note }: TokenEstimateProps) {
+  const family = providerInfo(registry, provider)?.tokenizer ?? 'generic';
+  // Counts are estimated until the model's exact tokenizer, if it has one, has loaded
+  const [encoder, setEncoder] = useState<Encoder | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    setEncoder(null);
+    loadEncoder(family, model)
+      .then(loaded => {
+        if (current) setEncoder(loaded);
+      })
+      .catch(() => {
+        // Without the tokenizer the estimate stays
+      });
+    return () => {
+      current = false;
+    };
+  }, [family, model]);
+
+  const tokens = countPromptTokens({ format, content }, family, encoder);
+  const info = findModel(registry, provider, model);
+  const share = info?.contextWindow ? tokens / info.contextWindow : 0;
+  const approx = encoder ? '' : '≈ ';
+
+  return (
+    <div className="text-xs text-secondary space-y-1">
+      <p title={encoder ? `Counted with the ${model} tokenizer` : "Approximate: estimated locally; the playground reports the provider's count"}>
+        {approx}{tokens.toLocaleString()} {tokens === 1 ? 'token' : 'tokens'}{!encoder && ' (approximate)'}
+        {info?.pricing && <> · {approx}{formatCost(inputCost(tokens, info.pricing.input))} input per call</>}
+        {note && <> · {note}</>}
+      </p>
+      {info?.contextWindow && share > 1 ? (
+        <p className="text-error">
+          Longer than the {info.contextWindow.toLocaleString()}-token context window of {model}.
+        </p>
+      ) : info?.contextWindow && share >= LARGE_CONTEXT_SHARE ? (
+        <p className="text-yellow-500">
+          Uses {Math.round(share * 100)}% of the {info.contextWindow.toLocaleString()}-token context window of {model}, leaving little room for the reply.
+        </p>
+      ) : null}
+    </div>
+  );
+}
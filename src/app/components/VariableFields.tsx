@@ -0,0 +1,57 @@
+'use client';
+
+import { PromptVariable } from '../types/prompt';
+
+interface VariableFieldsProps {
+  variables: PromptVariable[];
+  values: Record<string, string>;
+  errors: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+}
+
+// One input per template variable, typed after its schema
+export default function VariableFields({ variables, values, errors, onChange }: VariableFieldsProps) {
+  return (
+    <>
+      {variables.map((variable) => (
+        <div key={variable.name}>
+          <label htmlFor={`var-${variable.name}`} className="block text-sm font-medium text-default">
+            {variable.name}
+            {variable.required && <span className="text-error"> *</span>}
+          </label>
+          {variable.description && (
+            <p className="text-xs text-secondary">{variable.description}</p>
+          )}
+          {variable.type === 'boolean' ? (
+            <input
+              type="checkbox"
+              id={`var-${variable.name}`}
+              checked={values[variable.name] === 'true'}
+              onChange={(e) => onChange(variable.name, String(e.target.checked))}
+              className="mt-1"
+            />
+          ) : variable.type === 'text' ? (
+            <textarea
+              id={`var-${variable.name}`}
+              value={values[variable.name] ?? ''}
+              onChange={(e) => onChange(variable.name, e.target.value)}
+              rows={3}
+              className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+            />
+          ) : (
+            <input
+              type={variable.type === 'number' ? 'number' : 'text'}
+              id={`var-${variable.name}`}
+              value={values[variable.name] ?? ''}
+              onChange={(e) => onChange(variable.name, e.target.value)}
+              className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+            />
+          )}
+          {errors[variable.name] && (
+            <p className="mt-1 text-xs text-error">{errors[variable.name]}</p>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
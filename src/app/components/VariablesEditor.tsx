@@ -0,0 +1,69 @@
+'use client';
+
+import { PromptVariable, VariableType } from '../types/prompt';
+
+interface VariablesEditorProps {
+  variables: PromptVariable[];
+  onChange: (variables: PromptVariable[]) => void;
+}
+
+const VARIABLE_TYPES: VariableType[] = ['string', 'text', 'number', 'boolean'];
+
+export default function VariablesEditor({ variables, onChange }: VariablesEditorProps) {
+  if (variables.length === 0) {
+    return (
+      <p className="text-sm text-secondary">
+        {'Add placeholders such as {{customer_name}} to the prompt to define variables.'}
+      </p>
+    );
+  }
+
+  const updateVariable = (name: string, changes: Partial<PromptVariable>) => {
+    onChange(variables.map(variable => variable.name === name ? { ...variable, ...changes } : variable));
+  };
+
+  return (
+    <div className="space-y-2">
+      {variables.map((variable) => (
+        <div key={variable.name} className="grid grid-cols-12 gap-2 items-center text-sm">
+          <code className="col-span-3 text-default truncate" title={variable.name}>
+            {variable.name}
+          </code>
+          <select
+            value={variable.type}
+            onChange={(e) => updateVariable(variable.name, { type: e.target.value as VariableType })}
+            className="col-span-2 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+          >
+            {VARIABLE_TYPES.map((type) => (
+              <option key={type} value={type} className="bg-[#2a2a2a] text-white">
+                {type}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={variable.default ?? ''}
+            onChange={(e) => updateVariable(variable.name, { default: e.target.value || undefined })}
+            placeholder="Default"
+            className="col-span-2 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white placeholder-gray-400"
+          />
+          <input
+            type="text"
+            value={variable.description ?? ''}
+            onChange={(e) => updateVariable(variable.name, { description: e.target.value || undefined })}
+            placeholder="Description"
+            className="col-span-4 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white placeholder-gray-400"
+          />
+          <label className="col-span-1 flex items-center gap-1 text-default" title="Required">
+            <input
+              type="checkbox"
+              checked={variable.required}
+              onChange={(e) => updateVariable(variable.name, { required: e.target.checked })}
+            />
+            Req
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,305 +1,381 @@
 'use client';
 
 import { useState } from 'react';
-import { useSession } from 'next-auth/react';
+import DeprecatedModelBadge from './DeprecatedModelBadge';
+import PromptHistory from './PromptHistory';
+import PromptConflictResolver from './PromptConflictResolver';
+import PromptPlayground from './PromptPlayground';
+import PromptTemplateForm from './PromptTemplateForm';
+import ChatTranscript from './ChatTranscript';
+import PromptContentField from './PromptContentField';
+import ProviderModelFields from './ProviderModelFields';
+import TokenEstimate from './TokenEstimate';
+import VariablesEditor from './VariablesEditor';
+import { Prompt, PromptFormat, PromptInput, PromptVariable, Provider } from '../types/prompt';
+import { isChat, parseChat } from '../lib/chat';
+import { IncludeError, ResolvedPrompt, includedPrompts, includingPrompts, resolveIncludes } from '../lib/partials';
+import { DEFAULT_PROVIDER, providerInfo, providerName } from '../lib/modelRegistry';
+import { syncVariables } from '../lib/template';
+import { PromptConflictError, RefUpdateRejectedError } from '../lib/storage/errors';
+import { describeLibrary } from '../lib/storage/library';
+import { promptFolder } from '../lib/storage/promptFile';
+import { PromptRevision, PullRequestSummary } from '../lib/storage/types';
+import { useProviderRegistry } from '../lib/storage/useProviderRegistry';
+import { LibrarySource } from '../lib/storage/usePromptStorage';
 
 interface ViewEditPromptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  prompt: {
-    id: string;
-    title: string;
-    description: string;
-    tags: string[];
-    provider: Provider;
-    model: string;
-    filename: string;
-    content?: string;
-  };
+  prompt: Prompt;
+  // The library the prompt was loaded from
+  source: LibrarySource;
+  // Every open library, as targets for copying and moving
+  libraries: LibrarySource[];
+  // The prompts of the prompt's library, for resolving includes
+  libraryPrompts: Prompt[];
   onPromptUpdated: () => void;
 }
 
-type Provider = 'openai' | 'anthropic' | 'google' | 'xai' | 'meta' | 'mistral';
+type Tab = 'details' | 'history' | 'playground';
 
-interface ProviderConfig {
-  name: string;
-  models: string[];
+interface Conflict {
+  mine: PromptInput;
+  theirs: Prompt | null;
+  // The commit message to use once resolved
+  message?: string;
 }
 
-interface PromptMetadata {
-  id: string;
-  title: string;
-  description: string;
-  tags: string[];
-  provider: Provider;
-  model: string;
-  filename: string;
-  createdAt: string;
-  updatedAt: string;
-}
 
-const PROVIDERS: Record<Provider, ProviderConfig> = {
-  openai: {
-    name: 'OpenAI',
-    models: ['gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo', 'gpt-3.5']
-  },
-  anthropic: {
-    name: 'Anthropic',
-    models: ['claude-3-opus', 'claude-3-sonnet', 'claude-2.1', 'claude-2']
-  },
-  google: {
-    name: 'Google',
-    models: ['gemini-pro', 'gemini-ultra']
-  },
-  xai: {
-    name: 'xAI',
-    models: ['grok-1']
-  },
-  meta: {
-    name: 'Meta',
-    models: ['llama-2-70b', 'llama-2-13b', 'llama-2-7b']
-  },
-  mistral: {
-    name: 'Mistral',
-    models: ['mistral-large', 'mistral-medium', 'mistral-small']
-  }
-};
-
-export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptUpdated }: ViewEditPromptModalProps) {
-  const { data: session } = useSession();
+export default function ViewEditPromptModal({
+  isOpen,
+  onClose,
+  prompt,
+  source,
+  libraries,
+  libraryPrompts,
+  onPromptUpdated,
+}: ViewEditPromptModalProps) {
+  const { storage } = source;
+  const targets = libraries.filter(library => library.key !== source.key);
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState(prompt.title);
   const [description, setDescription] = useState(prompt.description);
+  const [format, setFormat] = useState<PromptFormat>(prompt.format ?? 'text');
   const [content, setContent] = useState(prompt.content || '');
   const [tags, setTags] = useState(prompt.tags.join(', '));
-  const [provider, setProvider] = useState<Provider>(prompt.provider || 'openai');
+  const registry = useProviderRegistry(source);
+  const [provider, setProvider] = useState<Provider>(prompt.provider || DEFAULT_PROVIDER);
   const [model, setModel] = useState(prompt.model);
+  const [variables, setVariables] = useState<PromptVariable[]>(
+    () => syncVariables(prompt.content || '', prompt.variables ?? [])
+  );
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [activeTab, setActiveTab] = useState<Tab>('details');
+  // The version this modal last read or wrote; edits are checked against it for conflicts
+  const [current, setCurrent] = useState<Prompt>(prompt);
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [deleteConflict, setDeleteConflict] = useState(false);
+  const [transferTarget, setTransferTarget] = useState(targets[0]?.key ?? '');
+  const [notice, setNotice] = useState('');
+  const [proposal, setProposal] = useState<PullRequestSummary | null>(null);
+
+  const handleContentChange = (newFormat: PromptFormat, newContent: string) => {
+    setFormat(newFormat);
+    setContent(newContent);
+    setVariables(prev => syncVariables(newContent, prev));
+  };
+
+  if (!isOpen) return null;
+
+  // The list may predate the version this modal last read or wrote
+  const library = libraryPrompts.map(other => other.id === current.id ? current : other);
+  const uses = includedPrompts(current, library);
+  const usedBy = includingPrompts(current, library);
+  let resolved: ResolvedPrompt | null = null;
+  let includeError = '';
+  try {
+    resolved = resolveIncludes(current, library);
+  } catch (err) {
+    if (!(err instanceof IncludeError)) throw err;
+    includeError = err.message;
+  }
 
-  const handleProviderChange = (newProvider: Provider) => {
-    setProvider(newProvider);
-    // Only auto-select the first model if the current model isn't in the new provider's list
-    if (!PROVIDERS[newProvider].models.includes(model)) {
-      setModel(PROVIDERS[newProvider].models[0]);
+  // The draft as it will be sent, includes filled in, for the token count
+  let draftContent = content;
+  let draftNote: string | undefined;
+  try {
+    draftContent = resolveIncludes({ ...current, format, content }, library).content;
+  } catch (err) {
+    if (!(err instanceof IncludeError)) throw err;
+    draftNote = 'includes not counted';
+  }
+
+  const resetForm = (values: Prompt) => {
+    setTitle(values.title);
+    setDescription(values.description);
+    setFormat(values.format ?? 'text');
+    setContent(values.content || '');
+    setTags(values.tags.join(', '));
+    setProvider(values.provider || DEFAULT_PROVIDER);
+    setModel(values.model);
+    setVariables(syncVariables(values.content || '', values.variables ?? []));
+  };
+
+  const describeError = (err: unknown, action: string) =>
+    err instanceof RefUpdateRejectedError
+      ? err.message
+      : `Failed to ${action} prompt. Please try again.`;
+
+  // Writes input over the version we started from, handing stale writes to the conflict resolver
+  const writePrompt = async (input: PromptInput, base: Prompt, message?: string) => {
+    try {
+      const updated = await storage.updatePrompt(prompt.id, input, { base, message });
+      setCurrent({ ...updated, content: input.content });
+      resetForm({ ...updated, content: input.content });
+      setConflict(null);
+      setIsEditing(false);
+      onPromptUpdated();
+    } catch (err) {
+      if (err instanceof PromptConflictError) {
+        setConflict({ mine: input, theirs: err.remote, message });
+        return;
+      }
+      throw err;
     }
   };
 
-  if (!isOpen) return null;
+  const formInput = (): PromptInput => ({
+    title,
+    description,
+    tags: tags.split(',').map((tag: string) => tag.trim()),
+    provider,
+    model,
+    format,
+    content,
+    variables,
+  });
+
+  // Includes that would lead back to the prompt are refused; ones that do not resolve yet are allowed
+  const findCycle = (input: PromptInput): string | null => {
+    try {
+      resolveIncludes({ ...current, ...input }, library);
+    } catch (err) {
+      if (err instanceof IncludeError && err.cycle) return err.message;
+      if (!(err instanceof IncludeError)) throw err;
+    }
+    return null;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const input = formInput();
+    const cycle = findCycle(input);
+    if (cycle) {
+      setError(cycle);
+      return;
+    }
     setIsSaving(true);
     setError('');
 
     try {
-      // Get current metadata.json
-      const metadataResponse = await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
-        }
-      );
+      await writePrompt(input, current);
+    } catch (err) {
+      console.error('Error updating prompt:', err);
+      setError(describeError(err, 'update'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-      const metadataData = await metadataResponse.json();
-      const metadata = JSON.parse(atob(metadataData.content));
-
-      // Update the prompt in metadata
-      const promptIndex = metadata.prompts.findIndex((p: any) => p.id === prompt.id);
-      if (promptIndex !== -1) {
-        // If title has changed, generate new filename
-        let filename = prompt.filename;
-        if (title !== prompt.title) {
-          // Convert title to kebab case for filename
-          const baseFilename = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
-          
-          // Check for existing prompts with similar filenames to handle duplicates
-          const existingPrompts = metadata.prompts.filter((p: PromptMetadata) => 
-            p.id !== prompt.id && p.filename.startsWith(`${baseFilename}-`)
-          );
-          const suffix = existingPrompts.length > 0 ? existingPrompts.length : '';
-          filename = `${baseFilename}-${Date.now()}${suffix}.md`;
-
-          // Delete old prompt file
-          const oldPromptResponse = await fetch(
-            `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${prompt.filename}`,
-            {
-              headers: {
-                'Authorization': `Bearer ${session?.accessToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-              },
-            }
-          );
-
-          const oldPromptData = await oldPromptResponse.json();
-
-          await fetch(
-            `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${prompt.filename}`,
-            {
-              method: 'DELETE',
-              headers: {
-                'Authorization': `Bearer ${session?.accessToken}`,
-                'Accept': 'application/vnd.github.v3+json',
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                message: `Delete old prompt file: ${prompt.title}`,
-                sha: oldPromptData.sha,
-              }),
-            }
-          );
-        }
-
-        metadata.prompts[promptIndex] = {
-          ...metadata.prompts[promptIndex],
-          title,
-          description,
-          tags: tags.split(',').map((tag: string) => tag.trim()),
-          provider,
-          model,
-          filename,
-          updatedAt: new Date().toISOString(),
-        };
-
-        // Update metadata.json
-        await fetch(
-          `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-          {
-            method: 'PUT',
-            headers: {
-              'Authorization': `Bearer ${session?.accessToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              message: `Update prompt: ${title}`,
-              content: btoa(JSON.stringify(metadata, null, 2)),
-              sha: metadataData.sha,
-            }),
-          }
-        );
-
-        // Create new prompt file with new filename if title changed, otherwise update existing
-        await fetch(
-          `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${filename}`,
-          {
-            method: 'PUT',
-            headers: {
-              'Authorization': `Bearer ${session?.accessToken}`,
-              'Accept': 'application/vnd.github.v3+json',
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              message: `Update prompt: ${title}`,
-              content: btoa(unescape(encodeURIComponent(content))),
-              ...(filename === prompt.filename && {
-                sha: (await (await fetch(
-                  `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${filename}`,
-                  {
-                    headers: {
-                      'Authorization': `Bearer ${session?.accessToken}`,
-                      'Accept': 'application/vnd.github.v3+json',
-                    },
-                  }
-                )).json()).sha,
-              }),
-            }),
-          }
-        );
-      }
+  // Commits the edit to a new branch and opens a pull request instead of saving it
+  const handlePropose = async () => {
+    if (!source.review) return;
+    const input = formInput();
+    const cycle = findCycle(input);
+    if (cycle) {
+      setError(cycle);
+      return;
+    }
+    setIsSaving(true);
+    setError('');
 
+    try {
+      setProposal(await source.review.proposeUpdate(prompt.id, input, current));
+      resetForm(current);
       setIsEditing(false);
-      onPromptUpdated();
     } catch (err) {
-      console.error('Error updating prompt:', err);
-      setError('Failed to update prompt. Please try again.');
+      console.error('Error proposing change:', err);
+      setError(
+        err instanceof PromptConflictError
+          ? `${err.message} Close and reopen the prompt to propose a change to the latest version.`
+          : 'Failed to propose change. Please try again.'
+      );
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handleDelete = async () => {
+  const handleRestore = async (revision: PromptRevision, restoredContent: string) => {
     setIsSaving(true);
     setError('');
 
     try {
-      // Get current metadata.json
-      const metadataResponse = await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
+      const { metadata } = revision;
+      await writePrompt(
         {
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
-        }
+          title: metadata.title,
+          description: metadata.description,
+          tags: metadata.tags,
+          provider: metadata.provider,
+          model: metadata.model,
+          format: metadata.format,
+          content: restoredContent,
+          variables: syncVariables(restoredContent, metadata.variables ?? []),
+        },
+        current,
+        `Restore prompt: ${metadata.title} to ${revision.sha.slice(0, 7)}`
       );
+      setActiveTab('details');
+    } catch (err) {
+      console.error('Error restoring prompt:', err);
+      setError(describeError(err, 'restore'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-      const metadataData = await metadataResponse.json();
-      const metadata = JSON.parse(atob(metadataData.content));
+  // Content edited in the side-by-side view, saved with the prompt's current fields
+  const handleSaveContent = async (edited: string) => {
+    const input: PromptInput = {
+      title: current.title,
+      description: current.description,
+      tags: current.tags,
+      provider: current.provider,
+      model: current.model,
+      format: current.format,
+      content: edited,
+      variables: syncVariables(edited, current.variables ?? []),
+    };
+    const cycle = findCycle(input);
+    if (cycle) {
+      throw new Error(cycle);
+    }
+    await writePrompt(input, current);
+  };
 
-      // Remove the prompt from metadata
-      metadata.prompts = metadata.prompts.filter((p: any) => p.id !== prompt.id);
+  const handleResolve = async (merged: PromptInput) => {
+    if (!conflict) return;
+    setIsSaving(true);
+    setError('');
 
-      // Update metadata.json
-      await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/metadata.json`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: `Delete prompt: ${prompt.title}`,
-            content: btoa(JSON.stringify(metadata, null, 2)),
-            sha: metadataData.sha,
-          }),
-        }
-      );
+    try {
+      if (conflict.theirs) {
+        // Retry against the version we just merged with
+        await writePrompt(merged, conflict.theirs, conflict.message);
+      } else {
+        await storage.createPrompt(merged);
+        setConflict(null);
+        onClose();
+        onPromptUpdated();
+      }
+    } catch (err) {
+      console.error('Error saving merged prompt:', err);
+      setError(describeError(err, 'update'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-      // Get prompt file info
-      const promptResponse = await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${prompt.filename}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          },
-        }
-      );
+  const handleTakeTheirs = () => {
+    const theirs = conflict?.theirs;
+    setConflict(null);
+    setIsEditing(false);
+    onPromptUpdated();
 
-      const promptData = await promptResponse.json();
+    if (!theirs) {
+      onClose();
+      return;
+    }
+    setCurrent(theirs);
+    resetForm(theirs);
+  };
 
-      // Delete prompt file
-      await fetch(
-        `https://api.github.com/repos/${session?.username}/ai_prompts/contents/prompts/${prompt.filename}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${session?.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: `Delete prompt: ${prompt.title}`,
-            sha: promptData.sha,
-          }),
-        }
-      );
+  const handleDelete = async () => {
+    setIsSaving(true);
+    setError('');
 
+    try {
+      // Once the user has seen the conflict warning, delete whatever is stored
+      await storage.deletePrompt(prompt.id, deleteConflict ? {} : { base: current });
+
+      setShowDeleteConfirm(false);
       onClose();
       onPromptUpdated();
     } catch (err) {
+      if (err instanceof PromptConflictError) {
+        setDeleteConflict(true);
+        return;
+      }
       console.error('Error deleting prompt:', err);
-      setError('Failed to delete prompt. Please try again.');
+      setError(describeError(err, 'delete'));
+      setShowDeleteConfirm(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Copies the prompt as it was last read into another library; a move then deletes the original
+  const handleTransfer = async (move: boolean) => {
+    const target = targets.find(library => library.key === transferTarget);
+    if (!target) return;
+    setIsSaving(true);
+    setError('');
+    setNotice('');
+
+    const destination = describeLibrary(target.library);
+    try {
+      await target.storage.createPrompt({
+        title: current.title,
+        description: current.description,
+        tags: current.tags,
+        provider: current.provider,
+        model: current.model,
+        format: current.format,
+        content: current.content || '',
+        variables: current.variables,
+        // The same folder in the other library
+        folder: promptFolder(current.filename),
+      });
+    } catch (err) {
+      console.error('Error copying prompt:', err);
+      setError(err instanceof RefUpdateRejectedError ? err.message : `Failed to copy prompt to ${destination}.`);
+      setIsSaving(false);
+      return;
+    }
+
+    if (!move) {
+      setNotice(`Copied to ${destination}.`);
+      setIsSaving(false);
+      onPromptUpdated();
+      return;
+    }
+
+    try {
+      await storage.deletePrompt(prompt.id, { base: current });
+      onClose();
+      onPromptUpdated();
+    } catch (err) {
+      console.error('Error removing moved prompt:', err);
+      setError(
+        err instanceof PromptConflictError
+          ? `Copied to ${destination}, but the original was changed by someone else so it was kept.`
+          : `Copied to ${destination}, but the original could not be removed.`
+      );
+      onPromptUpdated();
     } finally {
       setIsSaving(false);
-      setShowDeleteConfirm(false);
     }
   };
 
@@ -319,7 +395,7 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
         >
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-medium leading-6 text-default">
-              {isEditing ? 'Edit Prompt' : prompt.title}
+              {isEditing ? 'Edit Prompt' : current.title}
             </h3>
             <div className="flex space-x-2">
               {!isEditing && (
@@ -345,6 +421,22 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
             </div>
           )}
 
+          {proposal && (
+            <div className="mb-4 p-4 bg-[#2a2a2a] text-default rounded-md">
+              Opened{' '}
+              <a href={proposal.url} target="_blank" rel="noopener noreferrer" className="underline">
+                pull request #{proposal.number}
+              </a>
+              . The prompt changes once it is merged.
+            </div>
+          )}
+
+          {notice && (
+            <div className="mb-4 p-4 bg-[#2a2a2a] text-default rounded-md">
+              {notice}
+            </div>
+          )}
+
           {isEditing ? (
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
@@ -376,41 +468,15 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
                 />
               </div>
 
-              <div>
-                <label htmlFor="provider" className="block text-sm font-medium text-default">
-                  Provider
-                </label>
-                <select
-                  id="provider"
-                  value={provider}
-                  onChange={(e) => handleProviderChange(e.target.value as Provider)}
-                  className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50"
-                >
-                  {Object.entries(PROVIDERS).map(([key, value]) => (
-                    <option key={key} value={key} className="bg-[#2a2a2a] text-white">
-                      {value.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label htmlFor="model" className="block text-sm font-medium text-default">
-                  Model
-                </label>
-                <select
-                  id="model"
-                  value={model}
-                  onChange={(e) => setModel(e.target.value)}
-                  className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50"
-                >
-                  {PROVIDERS[provider].models.map((model) => (
-                    <option key={model} value={model} className="bg-[#2a2a2a] text-white">
-                      {model}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              <ProviderModelFields
+                registry={registry}
+                provider={provider}
+                model={model}
+                onChange={(newProvider, newModel) => {
+                  setProvider(newProvider);
+                  setModel(newModel);
+                }}
+              />
 
               <div>
                 <label htmlFor="tags" className="block text-sm font-medium text-default">
@@ -426,21 +492,25 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
                 />
               </div>
 
-              <div>
-                <label htmlFor="content" className="block text-sm font-medium text-default">
-                  Prompt
-                </label>
-                <textarea
-                  id="content"
-                  value={content}
-                  onChange={(e) => setContent(e.target.value)}
-                  rows={5}
-                  className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white shadow-sm focus:border-accent focus:ring focus:ring-accent focus:ring-opacity-50 placeholder-gray-400 font-mono"
-                  required
-                  placeholder="Enter your prompt text"
+              <div className="space-y-1">
+                <PromptContentField id="content" format={format} content={content} onChange={handleContentChange} />
+                <TokenEstimate
+                  registry={registry}
+                  provider={provider}
+                  model={model}
+                  format={format}
+                  content={draftContent}
+                  note={draftNote}
                 />
               </div>
 
+              <div>
+                <span className="block text-sm font-medium text-default mb-1">
+                  Variables
+                </span>
+                <VariablesEditor variables={variables} onChange={setVariables} />
+              </div>
+
               <div className="mt-6 flex justify-between">
                 <button
                   type="button"
@@ -457,6 +527,17 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
                   >
                     Cancel
                   </button>
+                  {source.review && (
+                    <button
+                      type="button"
+                      onClick={(e) => e.currentTarget.form?.reportValidity() && handlePropose()}
+                      disabled={isSaving}
+                      title="Commit to a new branch and open a pull request for review"
+                      className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+                    >
+                      Propose Change
+                    </button>
+                  )}
                   <button
                     type="submit"
                     disabled={isSaving}
@@ -469,38 +550,154 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
             </form>
           ) : (
             <div className="space-y-4">
-              <div>
-                <h4 className="text-sm font-medium text-default">Description</h4>
-                <p className="mt-1 text-secondary">{prompt.description || 'No description provided'}</p>
+              <div className="flex space-x-4 border-b border-default">
+                {(['details', 'history', 'playground'] as Tab[]).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setActiveTab(tab)}
+                    className={`pb-2 text-sm font-medium capitalize ${
+                      activeTab === tab
+                        ? 'text-default border-b-2 border-accent'
+                        : 'text-secondary hover:text-default'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
               </div>
 
-              <div>
-                <h4 className="text-sm font-medium text-default">Provider</h4>
-                <p className="mt-1 text-secondary">{PROVIDERS[prompt.provider].name}</p>
-              </div>
+              {activeTab === 'playground' ? (
+                <PromptPlayground
+                  key={current.updatedAt}
+                  prompt={resolved ? { ...current, ...resolved } : current}
+                  providerName={providerName(registry, current.provider)}
+                  api={providerInfo(registry, current.provider)?.api}
+                />
+              ) : activeTab === 'history' ? (
+                <PromptHistory
+                  key={current.updatedAt}
+                  prompt={current}
+                  storage={storage}
+                  onRestore={handleRestore}
+                  isRestoring={isSaving}
+                  onSaveContent={handleSaveContent}
+                />
+              ) : (
+                <>
+                  <div>
+                    <h4 className="text-sm font-medium text-default">Description</h4>
+                    <p className="mt-1 text-secondary">{current.description || 'No description provided'}</p>
+                  </div>
 
-              <div>
-                <h4 className="text-sm font-medium text-default">Model</h4>
-                <p className="mt-1 text-secondary">{prompt.model}</p>
-              </div>
+                  <div>
+                    <h4 className="text-sm font-medium text-default">Provider</h4>
+                    <p className="mt-1 text-secondary">{providerName(registry, current.provider)}</p>
+                  </div>
 
-              <div>
-                <h4 className="text-sm font-medium text-default">Tags</h4>
-                <div className="mt-1 flex flex-wrap gap-2">
-                  {prompt.tags.map((tag) => (
-                    <span key={tag} className="px-2 py-1 text-xs rounded-full bg-[#2a2a2a] text-white border border-[#3a3a3a]">
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-              </div>
+                  <div>
+                    <h4 className="text-sm font-medium text-default">Model</h4>
+                    <p className="mt-1 text-secondary">
+                      {current.model}
+                      <DeprecatedModelBadge registry={registry} provider={current.provider} model={current.model} />
+                    </p>
+                  </div>
 
-              <div>
-                <h4 className="text-sm font-medium text-default">Prompt</h4>
-                <pre className="mt-1 p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono whitespace-pre-wrap">
-                  {prompt.content || content}
-                </pre>
-              </div>
+                  <div>
+                    <h4 className="text-sm font-medium text-default">Tags</h4>
+                    <div className="mt-1 flex flex-wrap gap-2">
+                      {current.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-1 text-xs rounded-full bg-[#2a2a2a] text-white border border-[#3a3a3a]">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-default">Prompt</h4>
+                    {isChat(current) ? (
+                      <div className="mt-1">
+                        <ChatTranscript messages={parseChat(current.content || '')} />
+                      </div>
+                    ) : (
+                      <pre className="mt-1 p-4 rounded-md bg-[#2a2a2a] text-white border border-[#3a3a3a] font-mono whitespace-pre-wrap">
+                        {current.content}
+                      </pre>
+                    )}
+                  </div>
+
+                  {includeError && (
+                    <div className="p-4 bg-error/10 text-error rounded-md">
+                      {includeError}
+                    </div>
+                  )}
+
+                  {uses.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-default">Uses</h4>
+                      <p className="mt-1 text-secondary">{uses.map(partial => partial.title).join(', ')}</p>
+                    </div>
+                  )}
+
+                  {usedBy.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-default">Used By</h4>
+                      <p className="mt-1 text-secondary">{usedBy.map(other => other.title).join(', ')}</p>
+                    </div>
+                  )}
+
+                  {resolved && (resolved.variables.length > 0 || uses.length > 0) && (
+                    <div>
+                      {resolved.variables.length > 0 && (
+                        <h4 className="text-sm font-medium text-default mb-2">Fill In Variables</h4>
+                      )}
+                      <PromptTemplateForm
+                        key={current.updatedAt}
+                        content={resolved.content}
+                        format={current.format}
+                        variables={resolved.variables}
+                      />
+                    </div>
+                  )}
+
+                  {targets.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-default">Library</h4>
+                      <p className="mt-1 text-secondary">{describeLibrary(source.library)}</p>
+                      <div className="mt-2 flex items-center space-x-2">
+                        <select
+                          value={transferTarget}
+                          onChange={(e) => setTransferTarget(e.target.value)}
+                          className="flex-1 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white text-sm"
+                        >
+                          {targets.map(target => (
+                            <option key={target.key} value={target.key} className="bg-[#2a2a2a] text-white">
+                              {describeLibrary(target.library)}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleTransfer(false)}
+                          disabled={isSaving}
+                          className="px-3 py-1 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a] disabled:opacity-50"
+                        >
+                          Copy
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleTransfer(true)}
+                          disabled={isSaving}
+                          className="px-3 py-1 text-sm font-medium text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+                        >
+                          Move
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           )}
 
@@ -508,7 +705,10 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
             <div className="fixed inset-0 overflow-y-auto z-[60]">
               <div 
                 className="flex items-center justify-center min-h-screen"
-                onClick={() => setShowDeleteConfirm(false)}
+                onClick={() => {
+                  setShowDeleteConfirm(false);
+                  setDeleteConflict(false);
+                }}
               >
                 <div className="fixed inset-0 transition-opacity" aria-hidden="true">
                   <div className="absolute inset-0 bg-black/75"></div>
@@ -520,11 +720,18 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
                 >
                   <h3 className="text-lg font-medium text-default mb-4">Delete Prompt</h3>
                   <p className="text-secondary mb-6">
-                    Are you sure you want to delete this prompt? This action cannot be undone.
+                    {deleteConflict
+                      ? 'Someone else changed this prompt since you opened it. Delete it anyway, including their changes?'
+                      : usedBy.length > 0
+                        ? `${usedBy.map(other => `"${other.title}"`).join(', ')} ${usedBy.length === 1 ? 'includes' : 'include'} this prompt and will no longer render once it is deleted. Delete it anyway?`
+                        : 'Are you sure you want to delete this prompt? This action cannot be undone.'}
                   </p>
                   <div className="flex justify-end space-x-3">
                     <button
-                      onClick={() => setShowDeleteConfirm(false)}
+                      onClick={() => {
+                        setShowDeleteConfirm(false);
+                        setDeleteConflict(false);
+                      }}
                       className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
                     >
                       Cancel
@@ -534,15 +741,26 @@ export default function ViewEditPromptModal({ isOpen, onClose, prompt, onPromptU
                       disabled={isSaving}
                       className="px-4 py-2 text-sm font-medium text-white bg-error rounded-md hover:opacity-90"
                     >
-                      {isSaving ? 'Deleting...' : 'Delete'}
+                      {isSaving ? 'Deleting...' : deleteConflict ? 'Delete anyway' : 'Delete'}
                     </button>
                   </div>
                 </div>
               </div>
             </div>
           )}
+
+          {conflict && (
+            <PromptConflictResolver
+              mine={conflict.mine}
+              theirs={conflict.theirs}
+              isSaving={isSaving}
+              onSave={handleResolve}
+              onTakeTheirs={handleTakeTheirs}
+              onCancel={() => setConflict(null)}
+            />
+          )}
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
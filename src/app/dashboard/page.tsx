@@ -1,24 +1,92 @@
 'use client';
 
-import { useSession, signOut } from "next-auth/react";
+import { useSession, signIn, signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import CreatePromptModal from "../components/CreatePromptModal";
+import LibraryCheckModal from "../components/LibraryCheckModal";
 import PromptsList, { PromptsListRef } from "../components/PromptsList";
+import PendingChangesIndicator from "../components/PendingChangesIndicator";
+import PullRequestsPanel from "../components/PullRequestsPanel";
+import { PRIVATE_REPO_SCOPE, canAccessPrivateRepos } from "../lib/githubScopes";
+import { clearIndexedDbCache } from "../lib/storage/cache";
+import { describeLibrary } from "../lib/storage/library";
+import { LibrarySource, useLibrarySources } from "../lib/storage/usePromptStorage";
+import { ALL_LIBRARIES, useWorkspace } from "../lib/storage/useWorkspace";
 
 type RepoStatus = {
   state: 'not_exists' | 'exists' | 'checking' | 'creating' | 'error';
   isCreating: boolean;
 };
 
+const CHECKING: RepoStatus = { state: 'checking', isCreating: false };
+
+// Shared, so views without ready libraries do not hand children a new array on every render
+const NO_SOURCES: LibrarySource[] = [];
+
+const isLocalStorage = process.env.NEXT_PUBLIC_PROMPT_STORAGE === 'local';
+
+// Signs in again so GitHub asks the user to grant access to private repositories
+const grantPrivateAccess = () =>
+  signIn("github", { callbackUrl: "/dashboard" }, { scope: PRIVATE_REPO_SCOPE });
+
 export default function Dashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [repoStatus, setRepoStatus] = useState<RepoStatus>({ state: 'checking', isCreating: false });
-  const [errorMessage, setErrorMessage] = useState('');
+  const { active, setActive } = useWorkspace();
+  const sources = useLibrarySources();
+  // Keyed by library
+  const [repoStatus, setRepoStatus] = useState<Record<string, RepoStatus>>({});
+  const [errorMessage, setErrorMessage] = useState<Record<string, string>>({});
+  // Libraries to create as private repositories
+  const [createPrivate, setCreatePrivate] = useState<Record<string, boolean>>({});
+  // Libraries saved with an older schema version, and their upgrade progress
+  const [migration, setMigration] = useState<Record<string, 'needed' | 'migrating'>>({});
+  // GitHub answers 404 for private repositories the token cannot see, so a missing one may just be hidden
+  const hasPrivateAccess = isLocalStorage || canAccessPrivateRepos(session?.scope);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
-  const promptsListRef = useRef<PromptsListRef>(null);
+  const [createFolder, setCreateFolder] = useState('');
+  const [checkedSource, setCheckedSource] = useState<LibrarySource | null>(null);
+  // Views opened so far stay mounted, so each keeps its search, filters and sort when switching back
+  const [visited, setVisited] = useState<string[]>([]);
+  const promptsLists = useRef(new Map<string, PromptsListRef>());
+  const checkedSources = useRef(new WeakSet<LibrarySource>());
+
+  const statusOf = (source: LibrarySource) => repoStatus[source.key] ?? CHECKING;
+  const setStatusOf = (source: LibrarySource, next: RepoStatus, message?: string) => {
+    setRepoStatus(prev => ({ ...prev, [source.key]: next }));
+    if (message !== undefined) {
+      setErrorMessage(prev => ({ ...prev, [source.key]: message }));
+    }
+  };
+
+  // A stable string, so the lists only reload when a library becomes ready, not on every status change
+  const readyKeys = sources.filter(source => repoStatus[source.key]?.state === 'exists').map(source => source.key).join('\n');
+
+  // The libraries each view lists: one per library, plus all of them together
+  const views = useMemo(() => {
+    const ready = sources.filter(source => readyKeys.split('\n').includes(source.key));
+    const byView = new Map<string, LibrarySource[]>(
+      ready.map(source => [source.key, [source]])
+    );
+    if (sources.length > 1) {
+      byView.set(ALL_LIBRARIES, ready);
+    }
+    return byView;
+  }, [sources, readyKeys]);
+
+  const visibleSources = active === ALL_LIBRARIES ? sources : sources.filter(source => source.key === active);
+  const readySources = views.get(active) ?? NO_SOURCES;
+
+  useEffect(() => {
+    setVisited(prev => prev.includes(active) ? prev : [...prev, active]);
+  }, [active]);
+
+  const refreshPrompts = () => {
+    promptsLists.current.forEach(list => list.refreshPrompts());
+  };
 
   useEffect(() => {
     if (status === "unauthenticated") {
@@ -26,72 +94,74 @@ export default function Dashboard() {
     }
   }, [status, router]);
 
+  // Reset status when the user changes; switching the active library keeps it
   useEffect(() => {
-    async function checkRepository() {
-      // Reset status when session changes
-      setRepoStatus({ state: 'checking', isCreating: false });
-      
-      // Only proceed if we have the necessary session data
-      if (!session || !session.username || !session.accessToken || status !== 'authenticated') {
-        return;
-      }
+    setRepoStatus({});
+    setMigration({});
+  }, [session?.username, session?.accessToken]);
 
+  useEffect(() => {
+    async function checkRepository(source: LibrarySource) {
       try {
-        const response = await fetch(`https://api.github.com/repos/${session.username}/ai_prompts`, {
-          headers: {
-            'Authorization': `Bearer ${session.accessToken}`,
-            'Accept': 'application/vnd.github.v3+json',
-          }
-        });
-        
-        if (response.status === 404) {
-          setRepoStatus({ state: 'not_exists', isCreating: false });
-        } else if (response.ok) {
-          setRepoStatus({ state: 'exists', isCreating: false });
-        } else {
-          setRepoStatus({ state: 'error', isCreating: false });
-          const data = await response.json();
-          setErrorMessage(data.message || 'Failed to check repository status');
+        const exists = await source.storage.exists();
+        setStatusOf(source, { state: exists ? 'exists' : 'not_exists', isCreating: false });
+        if (exists) {
+          // Only offers the conversion, so a failed check leaves the library usable
+          source.storage.needsMigration()
+            .then(needed => needed && setMigration(prev => ({ ...prev, [source.key]: 'needed' })))
+            .catch(error => console.error('Error checking prompt files:', error));
         }
       } catch (error) {
-        setRepoStatus({ state: 'error', isCreating: false });
-        setErrorMessage('Failed to check repository status');
+        setStatusOf(
+          source,
+          { state: 'error', isCreating: false },
+          (error as Error).message || 'Failed to check repository status'
+        );
       }
     }
 
-    checkRepository();
-  }, [session, status]);
+    // Only proceed if we have the necessary session data
+    if (!session || !session.username || !session.accessToken || status !== 'authenticated') {
+      return;
+    }
+    // Sources are kept per library, so only ones just opened or signed in to need a check
+    sources.filter(source => !checkedSources.current.has(source)).forEach(source => {
+      checkedSources.current.add(source);
+      checkRepository(source);
+    });
+  }, [session, status, sources]);
 
-  const createRepository = async () => {
+  const createRepository = async (source: LibrarySource) => {
     if (!session?.username) return;
 
-    setRepoStatus({ state: 'creating', isCreating: true });
+    setStatusOf(source, { state: 'creating', isCreating: true });
     try {
-      const response = await fetch('https://api.github.com/user/repos', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.accessToken}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: 'ai_prompts',
-          description: 'Repository for storing and managing AI prompts',
-          private: false,
-          auto_init: true,
-        }),
-      });
+      await source.storage.initialize({ private: createPrivate[source.key] ?? false });
+      setStatusOf(source, { state: 'exists', isCreating: false });
+    } catch (error) {
+      setStatusOf(
+        source,
+        { state: 'error', isCreating: false },
+        (error as Error).message || 'Failed to create repository'
+      );
+    }
+  };
 
-      if (response.ok) {
-        setRepoStatus({ state: 'exists', isCreating: false });
-      } else {
-        setRepoStatus({ state: 'error', isCreating: false });
-        const data = await response.json();
-        setErrorMessage(data.message || 'Failed to create repository');
-      }
+  const migrateLibrary = async (source: LibrarySource) => {
+    setMigration(prev => ({ ...prev, [source.key]: 'migrating' }));
+    try {
+      await source.storage.migrate();
+      setMigration(prev => {
+        const { [source.key]: _done, ...rest } = prev;
+        return rest;
+      });
+      refreshPrompts();
     } catch (error) {
-      setRepoStatus({ state: 'error', isCreating: false });
-      setErrorMessage('Failed to create repository');
+      setMigration(prev => ({ ...prev, [source.key]: 'needed' }));
+      setErrorMessage(prev => ({
+        ...prev,
+        [source.key]: (error as Error).message || 'Failed to upgrade the library',
+      }));
     }
   };
 
@@ -116,8 +186,26 @@ export default function Dashboard() {
           <div className="flex justify-between h-16">
             <div className="flex items-center">
               <h1 className="text-2xl font-bold text-default">Prompt Gitter Dashboard</h1>
+              {sources.length > 1 && (
+                <select
+                  aria-label="Library"
+                  value={active}
+                  onChange={(e) => setActive(e.target.value)}
+                  className="ml-6 rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white text-sm"
+                >
+                  {sources.map(source => (
+                    <option key={source.key} value={source.key} className="bg-[#2a2a2a] text-white">
+                      {describeLibrary(source.library)}
+                    </option>
+                  ))}
+                  <option value={ALL_LIBRARIES} className="bg-[#2a2a2a] text-white">
+                    All libraries
+                  </option>
+                </select>
+              )}
             </div>
             <div className="flex items-center">
+              <PendingChangesIndicator onSynced={refreshPrompts} />
               {session?.user?.image && (
                 <Image
                   src={session.user.image}
@@ -128,8 +216,15 @@ export default function Dashboard() {
                 />
               )}
               <span className="ml-3 text-default">{session?.user?.name}</span>
+              <Link href="/settings" className="ml-4 text-default hover:underline">
+                Settings
+              </Link>
               <button
-                onClick={() => signOut({ callbackUrl: "/" })}
+                onClick={async () => {
+                  // The cache holds prompt contents, so do not leave it behind on a shared browser
+                  await clearIndexedDbCache();
+                  signOut({ callbackUrl: "/" });
+                }}
                 className="ml-4 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-button hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-accent"
               >
                 Sign Out
@@ -145,66 +240,158 @@ export default function Dashboard() {
             <h2 className="text-xl font-semibold mb-4 text-default">Welcome, {session?.user?.name}!</h2>
             
             {/* Repository Status Section */}
-            <div className="mb-8 p-4 bg-secondary rounded-lg border border-default">
-              <h3 className="font-medium text-default mb-4">AI Prompts Repository Status</h3>
-              {repoStatus.state === 'error' && (
-                <div className="mb-4 p-4 bg-error/10 text-error rounded-md">
-                  Error: {errorMessage}
-                </div>
-              )}
-              {repoStatus.state === 'checking' && (
-                <div className="flex items-center justify-center">
-                  <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent"></div>
-                </div>
-              )}
-              {repoStatus.state === 'exists' && (
-                <div className="flex items-center justify-between">
-                  <span className="text-success">✓ Repository exists</span>
-                  <a
-                    href={`https://github.com/${session?.username}/ai_prompts`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="px-4 py-2 bg-button text-white rounded-md hover:opacity-90 transition-colors"
-                  >
-                    View Repository
-                  </a>
-                </div>
-              )}
-              {repoStatus.state === 'not_exists' && (
-                <div className="flex items-center justify-between">
-                  <span className="text-default">Repository does not exist</span>
-                  <button
-                    onClick={createRepository}
-                    className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
-                    disabled={repoStatus.isCreating}
-                  >
-                    {repoStatus.isCreating ? 'Creating...' : 'Create Repository'}
-                  </button>
-                </div>
-              )}
+            <div className="mb-8 p-4 bg-secondary rounded-lg border border-default space-y-4">
+              <h3 className="font-medium text-default">AI Prompts Repository Status</h3>
+              {visibleSources.map(source => {
+                const { state, isCreating } = statusOf(source);
+                return (
+                  <div key={source.key}>
+                    <p className="text-sm text-secondary mb-2">{describeLibrary(source.library)}</p>
+                    {(state === 'error' || (migration[source.key] && errorMessage[source.key])) && (
+                      <div className="p-4 bg-error/10 text-error rounded-md">
+                        Error: {errorMessage[source.key]}
+                      </div>
+                    )}
+                    {state === 'checking' && (
+                      <div className="flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent"></div>
+                      </div>
+                    )}
+                    {state === 'exists' && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-success">✓ Repository exists</span>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setCheckedSource(source)}
+                            className="px-4 py-2 bg-[#2a2a2a] border border-[#3a3a3a] text-white rounded-md hover:bg-[#3a3a3a] transition-colors"
+                          >
+                            Check Library
+                          </button>
+                          {source.storage.webUrl && (
+                            <a
+                              href={source.storage.webUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-4 py-2 bg-button text-white rounded-md hover:opacity-90 transition-colors"
+                            >
+                              View Repository
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {state === 'exists' && migration[source.key] && (
+                      <div className="mt-3 p-3 rounded-md border border-default flex items-center justify-between">
+                        <span className="text-sm text-secondary">
+                          This library was saved by an older version of Prompt Gitter. Upgrade it to the
+                          current format, with metadata in each prompt file&apos;s front matter, in one commit.
+                        </span>
+                        <button
+                          onClick={() => migrateLibrary(source)}
+                          disabled={migration[source.key] === 'migrating'}
+                          className="ml-4 px-3 py-1 text-sm text-white bg-button rounded-md hover:opacity-90 disabled:opacity-50"
+                        >
+                          {migration[source.key] === 'migrating' ? 'Upgrading...' : 'Upgrade'}
+                        </button>
+                      </div>
+                    )}
+                    {(state === 'not_exists' || state === 'creating') && !hasPrivateAccess && (
+                      <div className="mb-3 p-3 rounded-md border border-default flex items-center justify-between">
+                        <span className="text-sm text-secondary">
+                          If this library is a private repository, Prompt Gitter cannot see it yet.
+                        </span>
+                        <button
+                          onClick={grantPrivateAccess}
+                          className="ml-4 px-3 py-1 text-sm text-white bg-button rounded-md hover:opacity-90"
+                        >
+                          Grant access to private repositories
+                        </button>
+                      </div>
+                    )}
+                    {(state === 'not_exists' || state === 'creating') && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-default">
+                          {source.library.branch ? 'Repository or branch does not exist' : 'Repository does not exist'}
+                        </span>
+                        <div className="flex items-center">
+                          {!isLocalStorage && (
+                            <label
+                              className="mr-4 flex items-center text-sm text-default"
+                              title={hasPrivateAccess ? undefined : 'Grant access to private repositories first'}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={createPrivate[source.key] ?? false}
+                                onChange={(e) => setCreatePrivate(prev => ({ ...prev, [source.key]: e.target.checked }))}
+                                disabled={!hasPrivateAccess || isCreating}
+                                className="mr-2"
+                              />
+                              Private
+                            </label>
+                          )}
+                          <button
+                            onClick={() => createRepository(source)}
+                            className="px-4 py-2 bg-[#238636] text-white rounded-md hover:bg-[#2ea043] transition-colors disabled:opacity-50"
+                            disabled={isCreating}
+                          >
+                            {isCreating ? 'Creating...' : 'Create Repository'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
 
+            {/* Pull Requests Section */}
+            <PullRequestsPanel sources={readySources} onMerged={refreshPrompts} />
+
             {/* Prompts List Section */}
-            {repoStatus.state === 'exists' && (
-              <div>
-                <h3 className="text-lg font-semibold text-default mb-4">Your Prompts</h3>
-                <PromptsList 
-                  ref={promptsListRef}
-                  onCreatePrompt={() => setIsCreateModalOpen(true)}
-                  isCreateDisabled={repoStatus.state !== 'exists'}
+            {readySources.length > 0 && (
+              <h3 className="text-lg font-semibold text-default mb-4">Your Prompts</h3>
+            )}
+            {visited.filter(view => (views.get(view)?.length ?? 0) > 0).map(view => (
+              <div key={view} className={view === active ? '' : 'hidden'}>
+                <PromptsList
+                  ref={list => {
+                    if (list) {
+                      promptsLists.current.set(view, list);
+                    } else {
+                      promptsLists.current.delete(view);
+                    }
+                  }}
+                  sources={views.get(view) ?? NO_SOURCES}
+                  libraries={views.get(ALL_LIBRARIES) ?? views.get(view) ?? NO_SOURCES}
+                  isActive={view === active}
+                  onCreatePrompt={folder => {
+                    setCreateFolder(folder);
+                    setIsCreateModalOpen(true);
+                  }}
+                  isCreateDisabled={readySources.length === 0}
                 />
               </div>
-            )}
+            ))}
           </div>
         </div>
       </main>
 
+      {checkedSource && (
+        <LibraryCheckModal
+          source={checkedSource}
+          onClose={() => setCheckedSource(null)}
+          onRepaired={refreshPrompts}
+        />
+      )}
+
       <CreatePromptModal
         isOpen={isCreateModalOpen}
+        libraries={readySources}
+        folder={createFolder}
         onClose={() => setIsCreateModalOpen(false)}
         onPromptCreated={() => {
           setIsCreateModalOpen(false);
-          promptsListRef.current?.refreshPrompts();
+          refreshPrompts();
         }}
       />
     </div>
@@ -0,0 +1,36 @@
+import type { NextAuthOptions } from "next-auth";
+import GithubProvider from "next-auth/providers/github";
+import { PUBLIC_REPO_SCOPE } from "./githubScopes";
+
+export const authOptions: NextAuthOptions = {
+  providers: [
+    GithubProvider({
+      clientId: process.env.GITHUB_ID ?? "",
+      clientSecret: process.env.GITHUB_SECRET ?? "",
+      authorization: {
+        params: {
+          // Signing in again with PRIVATE_REPO_SCOPE widens this, see canAccessPrivateRepos
+          scope: PUBLIC_REPO_SCOPE,
+        },
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, account, profile }: any) {
+      // Persist the OAuth access_token and GitHub username to the token right after signin
+      if (account) {
+        token.accessToken = account.access_token;
+        token.username = profile.login; // Add GitHub username
+        token.scope = account.scope; // What the user actually granted
+      }
+      return token;
+    },
+    async session({ session, token }: any) {
+      // Send properties to the client
+      session.accessToken = token.accessToken;
+      session.username = token.username; // Add GitHub username to session
+      session.scope = token.scope;
+      return session;
+    },
+  },
+};
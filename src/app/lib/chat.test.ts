@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, parseChat, promptText, serializeChat, toAnthropicPayload, toOpenAIMessages } from './chat';
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'You are a support agent.' },
+  { role: 'user', content: 'Summarize this ticket:\n\n{{ticket}}' },
+  { role: 'assistant', content: '' },
+];
+
+describe('chat', () => {
+  it('reads back what it writes', () => {
+    const content = serializeChat(messages);
+    expect(content).toBe(
+      '<!-- role: system -->\nYou are a support agent.\n\n<!-- role: user -->\nSummarize this ticket:\n\n{{ticket}}\n\n<!-- role: assistant -->\n'
+    );
+    expect(parseChat(content)).toEqual(messages);
+  });
+
+  it('takes text before the first marker as a user message', () => {
+    expect(parseChat('Hello\r\n<!-- role: assistant -->\r\nHi')).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi' },
+    ]);
+    expect(parseChat('\n<!-- role: user -->\nHi')).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('gives the words of a chat prompt without role markers', () => {
+    expect(promptText({ format: 'chat', content: serializeChat(messages) }))
+      .toBe('You are a support agent.\n\nSummarize this ticket:\n\n{{ticket}}\n\n');
+    expect(promptText({ content: '<!-- role: user -->\nAs is' })).toBe('<!-- role: user -->\nAs is');
+  });
+
+  it('builds OpenAI and Anthropic payloads', () => {
+    const conversation: ChatMessage[] = [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+      { role: 'system', content: 'Be kind.' },
+    ];
+    expect(toOpenAIMessages(conversation)).toEqual(conversation);
+    expect(toAnthropicPayload(conversation)).toEqual({
+      system: 'Be brief.\n\nBe kind.',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    expect(toAnthropicPayload([{ role: 'user', content: 'Hi' }])).toEqual({ messages: [{ role: 'user', content: 'Hi' }] });
+  });
+});
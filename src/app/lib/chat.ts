@@ -0,0 +1,91 @@
+import { PromptFormat } from '../types/prompt';
+
+// Chat prompts keep their messages in the prompt text, one after another, each
+// under a marker line naming its role:
+//
+//   <!-- role: system -->
+//   You are a support agent.
+//
+//   <!-- role: user -->
+//   Summarize this ticket: {{ticket}}
+//
+// The text stays a single string, so placeholders, search and history work on
+// chat prompts as they do on plain ones.
+
+export const CHAT_ROLES = ['system', 'user', 'assistant'] as const;
+
+export type ChatRole = typeof CHAT_ROLES[number];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+const ROLE_MARKER = /^<!-- role: (system|user|assistant) -->$/;
+
+const roleMarker = (role: ChatRole) => `<!-- role: ${role} -->`;
+
+export function isChat(prompt: { format?: PromptFormat }): boolean {
+  return prompt.format === 'chat';
+}
+
+export function serializeChat(messages: ChatMessage[]): string {
+  return messages.map(message => `${roleMarker(message.role)}\n${message.content}`).join('\n\n');
+}
+
+/**
+ * Reads the messages of a chat prompt's text, the inverse of serializeChat.
+ * Text before the first marker, as left by hand edits, is taken as a user
+ * message when it is not blank.
+ */
+export function parseChat(content: string): ChatMessage[] {
+  const sections: { role: ChatRole | null; lines: string[] }[] = [{ role: null, lines: [] }];
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(ROLE_MARKER);
+    if (match) {
+      sections.push({ role: match[1] as ChatRole, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections.flatMap(({ role, lines }, index): ChatMessage[] => {
+    // Every message but the last ends with the blank line serializeChat puts before the next marker
+    const text = index < sections.length - 1 ? lines.join('\n').replace(/\n$/, '') : lines.join('\n');
+    if (role === null) {
+      return text.trim() === '' ? [] : [{ role: 'user', content: text }];
+    }
+    return [{ role, content: text }];
+  });
+}
+
+// What a chat prompt becomes as plain text: the messages one after another
+export function flattenChat(messages: ChatMessage[]): string {
+  return messages.map(message => message.content).join('\n\n');
+}
+
+// The words of a prompt without the role markers, for search and excerpts
+export function promptText(prompt: { format?: PromptFormat; content?: string }): string {
+  return isChat(prompt) ? flattenChat(parseChat(prompt.content ?? '')) : prompt.content ?? '';
+}
+
+// The `messages` array of the OpenAI Chat Completions API
+export function toOpenAIMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(({ role, content }) => ({ role, content }));
+}
+
+export interface AnthropicPayload {
+  system?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+}
+
+// The Anthropic Messages API takes system messages apart from the conversation
+export function toAnthropicPayload(messages: ChatMessage[]): AnthropicPayload {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  return {
+    ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+    messages: messages
+      .filter((message): message is ChatMessage & { role: 'user' | 'assistant' } => message.role !== 'system')
+      .map(({ role, content }) => ({ role, content })),
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, stringifyCsv } from './csv';
+
+describe('csv', () => {
+  it('parses quoted fields holding commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, ""c""","d\r\ne"\r\n\r\nf,g')).toEqual([
+      ['a', 'b, "c"', 'd\r\ne'],
+      ['f', 'g'],
+    ]);
+  });
+
+  it('reads records back as they were written', () => {
+    const records = [
+      { title: 'Plain', content: 'Line one\nLine "two", quoted' },
+      { title: 'Empty content', content: '' },
+    ];
+    expect(parseCsvRecords(stringifyCsv(['title', 'content'], records))).toEqual(records);
+  });
+
+  it('escapes cells spreadsheets would run as formulas', () => {
+    const csv = stringifyCsv(['content'], [{ content: '=SUM(A1)' }, { content: '-1' }, { content: '@here' }]);
+    expect(parseCsv(csv)).toEqual([['content'], ["'=SUM(A1)"], ["'-1"], ["'@here"]]);
+  });
+
+  it('keeps apostrophes the text started with', () => {
+    const records = ["'=x", "'quoted'", "''", '=x', "it's"].map(content => ({ content }));
+    expect(parseCsvRecords(stringifyCsv(['content'], records))).toEqual(records);
+  });
+
+  it('ignores a byte order mark and spaces around column names', () => {
+    expect(parseCsvRecords('﻿ title , tags\nA,b')).toEqual([{ title: 'A', tags: 'b' }]);
+  });
+});
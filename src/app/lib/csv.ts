@@ -0,0 +1,67 @@
+// RFC 4180 CSV: quoted fields may hold commas, quotes and line breaks
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no record
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+// Spreadsheets run cells starting with =, +, -, @, tab or CR as formulas. Those get an apostrophe,
+// and so does text already starting with one, so importing only ever removes an added apostrophe.
+const ESCAPED_START = /^['=+\-@\t\r]/;
+
+// The first row names the columns; cells escaped by stringifyCsv get their text back
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = header.map(column => column.trim());
+  const unescape = (cell: string) => cell.startsWith("'") && ESCAPED_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, unescape(row[index] ?? '')])));
+}
+
+// A leading apostrophe makes spreadsheets show the cell as text instead of evaluating it
+function escapeFormula(value: string): string {
+  return ESCAPED_START.test(value) ? `'${value}` : value;
+}
+
+function quoteField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function stringifyCsv(columns: string[], records: Record<string, string>[]): string {
+  const lines = [columns, ...records.map(record => columns.map(column => escapeFormula(record[column] ?? '')))];
+  return lines.map(cells => cells.map(quoteField).join(',')).join('\r\n') + '\r\n';
+}
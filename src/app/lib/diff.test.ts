@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, diffChunks, diffLines, diffWords } from './diff';
+
+describe('diff', () => {
+  it('diffs lines, removals before additions', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'removed', value: 'b' },
+      { type: 'added', value: 'B' },
+      { type: 'equal', value: 'c' },
+      { type: 'added', value: 'd' },
+    ]);
+  });
+
+  it('diffs words without taking neighbouring punctuation along', () => {
+    expect(diffWords('Be brief.', 'Be concise.')).toEqual([
+      { type: 'equal', value: 'Be' },
+      { type: 'equal', value: ' ' },
+      { type: 'removed', value: 'brief' },
+      { type: 'added', value: 'concise' },
+      { type: 'equal', value: '.' },
+    ]);
+  });
+
+  it('gathers each run of changes into one chunk', () => {
+    expect(diffChunks('Summarize the ticket in three bullets', 'Summarize the email in two bullets')).toEqual([
+      { type: 'equal', value: 'Summarize the ' },
+      { type: 'change', removed: 'ticket', added: 'email' },
+      { type: 'equal', value: ' in ' },
+      { type: 'change', removed: 'three', added: 'two' },
+      { type: 'equal', value: ' bullets' },
+    ]);
+  });
+
+  it('rebuilds either side, with one chunk copied across', () => {
+    const before = 'Summarize the ticket in three bullets';
+    const after = 'Summarize the email in two bullets';
+    const chunks = diffChunks(before, after);
+    expect(chunkText(chunks, 'before')).toBe(before);
+    expect(chunkText(chunks, 'after')).toBe(after);
+    expect(chunkText(chunks, 'before', 1)).toBe('Summarize the email in three bullets');
+    expect(chunkText(chunks, 'after', 3)).toBe('Summarize the email in three bullets');
+  });
+});
@@ -0,0 +1,90 @@
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+// Longest-common-subsequence diff. Prompts are small enough that the
+// O(n * m) table is cheaper than pulling in a diff library.
+export function diffSequences(a: string[], b: string[]): DiffPart[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'equal', value: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      parts.push({ type: 'removed', value: a[i] });
+      i++;
+    } else {
+      parts.push({ type: 'added', value: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) parts.push({ type: 'removed', value: a[i++] });
+  while (j < b.length) parts.push({ type: 'added', value: b[j++] });
+
+  return parts;
+}
+
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffSequences(before.split('\n'), after.split('\n'));
+}
+
+// Words, runs of whitespace and single punctuation marks, so a changed word does not drag its neighbours along
+const WORD_TOKENS = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffSequences(before.match(WORD_TOKENS) ?? [], after.match(WORD_TOKENS) ?? []);
+}
+
+// A word diff with each run of changes gathered into one chunk that can be copied across
+export type DiffChunk =
+  | { type: 'equal'; value: string }
+  | { type: 'change'; removed: string; added: string };
+
+export function diffChunks(before: string, after: string): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  for (const part of diffWords(before, after)) {
+    const last = chunks[chunks.length - 1];
+    if (part.type === 'equal') {
+      if (last?.type === 'equal') {
+        last.value += part.value;
+      } else {
+        chunks.push({ type: 'equal', value: part.value });
+      }
+    } else {
+      const change = last?.type === 'change' ? last : { type: 'change' as const, removed: '', added: '' };
+      if (change !== last) chunks.push(change);
+      change[part.type === 'removed' ? 'removed' : 'added'] += part.value;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * One side's text rebuilt from chunks. With copied set, that change takes the
+ * other side's words, which is how a chunk is copied from one side to the other.
+ */
+export function chunkText(chunks: DiffChunk[], side: 'before' | 'after', copied?: number): string {
+  return chunks.map((chunk, index) => {
+    if (chunk.type === 'equal') return chunk.value;
+    const useBefore = (side === 'before') !== (index === copied);
+    return useBefore ? chunk.removed : chunk.added;
+  }).join('');
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildFolderTree, isInFolder } from './folders';
+
+const files = (...filenames: string[]) => filenames.map(filename => ({ filename }));
+
+describe('folders', () => {
+  it('matches a folder and every folder below it', () => {
+    expect(isInFolder({ filename: 'writing/blog/post-1.md' }, 'writing')).toBe(true);
+    expect(isInFolder({ filename: 'writing/blog/post-1.md' }, '')).toBe(true);
+    expect(isInFolder({ filename: 'writing-old/post-1.md' }, 'writing')).toBe(false);
+    expect(isInFolder({ filename: 'post-1.md' }, 'writing')).toBe(false);
+  });
+
+  it('builds a sorted tree with counts, including empty folders passed in', () => {
+    const tree = buildFolderTree(files('top-1.md', 'writing/blog/post-2.md', 'writing/note-3.md', 'code/review-4.md'), ['drafts']);
+    expect(tree).toEqual({
+      path: '', name: '', count: 4, children: [
+        { path: 'code', name: 'code', count: 1, children: [] },
+        { path: 'drafts', name: 'drafts', count: 0, children: [] },
+        {
+          path: 'writing', name: 'writing', count: 2, children: [
+            { path: 'writing/blog', name: 'blog', count: 1, children: [] },
+          ],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { PromptMetadata } from '../types/prompt';
+import { promptFolder } from './storage/promptFile';
+
+export interface FolderNode {
+  // '' for the top level, which holds the whole library
+  path: string;
+  name: string;
+  // Prompts in the folder and every folder below it
+  count: number;
+  children: FolderNode[];
+}
+
+// Whether a prompt sits in a folder or in any folder below it
+export function isInFolder(prompt: Pick<PromptMetadata, 'filename'>, folder: string): boolean {
+  const own = promptFolder(prompt.filename);
+  return folder === '' || own === folder || own.startsWith(`${folder}/`);
+}
+
+/**
+ * The folders prompts sit in, as a tree with counts. Git keeps no empty
+ * directories, so folders without prompts yet are only there when passed in.
+ */
+export function buildFolderTree(prompts: Pick<PromptMetadata, 'filename'>[], folders: string[] = []): FolderNode {
+  const root: FolderNode = { path: '', name: '', count: 0, children: [] };
+  const nodes = new Map([['', root]]);
+
+  const nodeAt = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) {
+      return existing;
+    }
+    // A folder path is split like a filename, its parent being the folder it sits in
+    const node: FolderNode = { path, name: path.slice(path.lastIndexOf('/') + 1), count: 0, children: [] };
+    nodeAt(promptFolder(path)).children.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  folders.forEach(nodeAt);
+  for (const prompt of prompts) {
+    for (let path = promptFolder(prompt.filename); ; path = promptFolder(path)) {
+      nodeAt(path).count++;
+      if (path === '') break;
+    }
+  }
+
+  const sort = (node: FolderNode) => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter, stringifyFrontMatter } from './frontMatter';
+
+describe('front matter', () => {
+  it('reads back what it writes', () => {
+    const data = { title: 'Summarize: ticket', tags: ['support', 'email'], variables: [{ name: 'ticket', type: 'text' }] };
+    const body = 'Summarize this ticket:\n\n---\n{{ticket}}\n';
+    expect(parseFrontMatter(stringifyFrontMatter(data, body))).toEqual({ data, body });
+  });
+
+  it('treats a document without front matter as all body', () => {
+    expect(parseFrontMatter('Just text\n---\n')).toEqual({ data: {}, body: 'Just text\n---\n' });
+    expect(parseFrontMatter('---\ntitle: unclosed\n')).toEqual({ data: {}, body: '---\ntitle: unclosed\n' });
+  });
+
+  it('ignores a byte order mark and Windows line endings', () => {
+    expect(parseFrontMatter('﻿---\r\ntitle: A\r\n---\r\nBody\r\n')).toEqual({ data: { title: 'A' }, body: 'Body\n' });
+  });
+});
@@ -0,0 +1,32 @@
+import { parseYaml, stringifyYaml } from './yaml';
+
+const DELIMITER = '---';
+
+export interface FrontMatterDocument {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+// A document without front matter is all body
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (!normalized.startsWith(`${DELIMITER}\n`)) {
+    return { data: {}, body: normalized };
+  }
+
+  const end = normalized.indexOf(`\n${DELIMITER}`, DELIMITER.length);
+  const afterEnd = end + DELIMITER.length + 1;
+  if (end === -1 || (afterEnd < normalized.length && normalized[afterEnd] !== '\n')) {
+    return { data: {}, body: normalized };
+  }
+
+  const data = parseYaml(normalized.slice(DELIMITER.length + 1, end + 1));
+  return {
+    data: typeof data === 'object' && data !== null && !Array.isArray(data) ? data as Record<string, unknown> : {},
+    body: normalized.slice(afterEnd + 1),
+  };
+}
+
+export function stringifyFrontMatter(data: Record<string, unknown>, body: string): string {
+  return `${DELIMITER}\n${stringifyYaml(data)}${DELIMITER}\n${body}`;
+}
@@ -0,0 +1,11 @@
+// OAuth scopes asked of GitHub. Access to private repositories is only requested when the user opts in.
+
+export const PUBLIC_REPO_SCOPE = 'read:user user:email public_repo';
+
+// GitHub has no narrower scope that reaches private repositories
+export const PRIVATE_REPO_SCOPE = 'read:user user:email repo';
+
+// GitHub reports granted scopes comma-separated; sessions from before scopes were recorded have none
+export function canAccessPrivateRepos(grantedScope?: string): boolean {
+  return (grantedScope ?? '').split(/[\s,]+/).includes('repo');
+}
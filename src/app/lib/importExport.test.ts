@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Prompt } from '../types/prompt';
+import {
+  TRANSFER_FORMATS, TransferFormat, exportPrompts, guessMapping, planImport, readImportFile, recordKeys,
+} from './importExport';
+
+const prompt = (fields: Partial<Prompt>): Prompt => ({
+  id: '1700000000000',
+  title: 'Summarize ticket',
+  description: 'Three bullet points',
+  tags: ['support', 'email'],
+  provider: 'anthropic',
+  model: 'claude-3-5-sonnet-latest',
+  filename: 'summarize-ticket-1700000000000.md',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+  content: 'Summarize this ticket: {{ticket}}',
+  variables: [{ name: 'ticket', type: 'text', required: true }],
+  ...fields,
+});
+
+const prompts = [
+  prompt({}),
+  prompt({
+    id: '1700000000001',
+    title: '=Formula-looking title',
+    tags: [],
+    format: 'chat',
+    filename: 'writing/blog/formula-1700000000001.md',
+    content: '<!-- role: system -->\nBe brief, "exact" and kind.\n\n<!-- role: user -->\nWrite about {{topic}}\n',
+    variables: [{ name: 'topic', type: 'string', default: 'git', required: false }],
+  }),
+];
+
+const importAgain = async (format: TransferFormat) => {
+  const file = new File([exportPrompts(prompts, format)], `prompts.${TRANSFER_FORMATS[format].extension}`);
+  const records = await readImportFile(file, format);
+  return planImport(records, guessMapping(recordKeys(records)), []);
+};
+
+describe('import and export', () => {
+  it.each(['json', 'yaml', 'csv', 'markdown'] as const)('imports a %s export as the prompts it holds', async format => {
+    const plan = await importAgain(format);
+    expect(plan.map(entry => entry.input)).toEqual([
+      {
+        title: 'Summarize ticket',
+        description: 'Three bullet points',
+        tags: ['support', 'email'],
+        provider: 'anthropic',
+        model: 'claude-3-5-sonnet-latest',
+        content: 'Summarize this ticket: {{ticket}}',
+        variables: [{ name: 'ticket', type: 'text', required: true }],
+      },
+      {
+        title: '=Formula-looking title',
+        description: 'Three bullet points',
+        tags: [],
+        provider: 'anthropic',
+        model: 'claude-3-5-sonnet-latest',
+        format: 'chat',
+        content: '<!-- role: system -->\nBe brief, "exact" and kind.\n\n<!-- role: user -->\nWrite about {{topic}}\n',
+        variables: [{ name: 'topic', type: 'string', default: 'git', required: false }],
+        folder: 'writing/blog',
+      },
+    ]);
+  });
+
+  it('flags duplicates of existing prompts and of earlier rows', () => {
+    const records = [
+      { title: 'summarize  TICKET', content: 'Something else' },
+      { title: 'New', content: 'Fresh text' },
+      { title: 'Newer', content: 'Fresh text' },
+      { content: 'No title' },
+    ].map(record => ({ provider: 'openai', model: 'gpt-4o', ...record }));
+    const plan = planImport(records, guessMapping(recordKeys(records)), [prompts[0]]);
+    expect(plan.map(({ row, duplicateOf, error }) => ({ row, duplicateOf, error }))).toEqual([
+      { row: 1, duplicateOf: '"Summarize ticket"', error: undefined },
+      { row: 2, duplicateOf: undefined, error: undefined },
+      { row: 3, duplicateOf: 'row 2', error: undefined },
+      { row: 4, duplicateOf: undefined, error: expect.any(String) },
+    ]);
+  });
+});
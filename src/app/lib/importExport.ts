@@ -0,0 +1,248 @@
+import { Prompt, PromptInput } from '../types/prompt';
+import { parseCsvRecords, stringifyCsv } from './csv';
+import { parseFrontMatter } from './frontMatter';
+import { promptFolder, serializePromptFile } from './storage/promptFile';
+import { syncVariables } from './template';
+import { parsePromptInput } from './validation';
+import { parseYaml, stringifyYaml } from './yaml';
+import { createZip, readZip } from './zip';
+
+export type TransferFormat = 'json' | 'yaml' | 'csv' | 'markdown';
+
+export const TRANSFER_FORMATS: Record<TransferFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  yaml: { label: 'YAML', extension: 'yaml', mimeType: 'application/yaml' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown (zip)', extension: 'zip', mimeType: 'application/zip' },
+};
+
+export function formatFromFilename(name: string): TransferFormat | null {
+  const extension = name.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'json':
+      return 'json';
+    case 'yaml':
+    case 'yml':
+      return 'yaml';
+    case 'csv':
+      return 'csv';
+    case 'zip':
+    case 'md':
+    case 'markdown':
+      return 'markdown';
+    default:
+      return null;
+  }
+}
+
+// Everything worth keeping about a prompt outside the app, in a stable key order
+function exportRecord(prompt: Prompt) {
+  return {
+    id: prompt.id,
+    title: prompt.title,
+    folder: promptFolder(prompt.filename),
+    description: prompt.description,
+    tags: prompt.tags,
+    provider: prompt.provider,
+    model: prompt.model,
+    format: prompt.format ?? 'text',
+    variables: prompt.variables ?? [],
+    createdAt: prompt.createdAt,
+    updatedAt: prompt.updatedAt,
+    content: prompt.content ?? '',
+  };
+}
+
+const CSV_COLUMNS = ['id', 'title', 'folder', 'description', 'tags', 'provider', 'model', 'format', 'variables', 'createdAt', 'updatedAt', 'content'];
+
+export function exportPrompts(prompts: Prompt[], format: TransferFormat): Blob {
+  const records = prompts.map(exportRecord);
+  const { mimeType } = TRANSFER_FORMATS[format];
+
+  switch (format) {
+    case 'json':
+      return new Blob([JSON.stringify({ prompts: records }, null, 2)], { type: mimeType });
+    case 'yaml':
+      return new Blob([stringifyYaml({ prompts: records })], { type: mimeType });
+    case 'csv':
+      return new Blob([stringifyCsv(CSV_COLUMNS, records.map(record => ({
+        ...record,
+        tags: record.tags.join(', '),
+        variables: record.variables.length > 0 ? JSON.stringify(record.variables) : '',
+      })))], { type: mimeType });
+    case 'markdown': {
+      // Prompts from different libraries may share a filename
+      const paths = new Set<string>();
+      return new Blob([createZip(prompts.map(prompt => {
+        let path = prompt.filename;
+        for (let copy = 2; paths.has(path); copy++) {
+          path = prompt.filename.replace(/\.md$/, `-${copy}.md`);
+        }
+        paths.add(path);
+        // The same file the prompt is kept in, so the archive can double as a library
+        return { path, content: serializePromptFile(prompt, prompt.content ?? '') };
+      }))], { type: mimeType });
+    }
+  }
+}
+
+// One imported prompt as found in the file, before its fields are mapped
+export type ImportRecord = Record<string, unknown>;
+
+function recordsFrom(data: unknown): ImportRecord[] {
+  const list = Array.isArray(data)
+    ? data
+    : (data as { prompts?: unknown } | null)?.prompts;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a list of prompts, or an object with a "prompts" list');
+  }
+  return list.filter((item): item is ImportRecord => typeof item === 'object' && item !== null && !Array.isArray(item));
+}
+
+/**
+ * Front matter holds the fields and the body is the prompt; the file name
+ * stands in for a missing title. The directory is the folder, as in a
+ * library, so an archive of a whole prompts/ directory keeps its layout.
+ */
+function markdownRecord(path: string, text: string): ImportRecord {
+  const { data, body } = parseFrontMatter(text);
+  const name = path.split('/').pop()!.replace(/\.(md|markdown)$/i, '');
+  // Checked with the other fields by parsePromptInput, so a bad directory fails only its own rows
+  const folder = promptFolder(path).replace(/^prompts(\/|$)/, '');
+  return { title: name, ...data, folder, content: body };
+}
+
+export async function readImportFile(file: File, format: TransferFormat): Promise<ImportRecord[]> {
+  switch (format) {
+    case 'json':
+      return recordsFrom(JSON.parse(await file.text()));
+    case 'yaml':
+      return recordsFrom(parseYaml(await file.text()));
+    case 'csv':
+      return parseCsvRecords(await file.text());
+    case 'markdown': {
+      if (/\.(md|markdown)$/i.test(file.name)) {
+        return [markdownRecord(file.name, await file.text())];
+      }
+      const entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+      return entries
+        // Skip the resource forks macOS adds to archives
+        .filter(entry => /\.(md|markdown)$/i.test(entry.path) && !entry.path.split('/').some(part => part.startsWith('__MACOSX') || part.startsWith('._')))
+        .map(entry => markdownRecord(entry.path, entry.content));
+    }
+  }
+}
+
+export const IMPORT_FIELDS = ['title', 'folder', 'description', 'tags', 'provider', 'model', 'format', 'content', 'variables'] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// The record key each prompt field is read from; an empty string leaves the field unmapped
+export type FieldMapping = Record<ImportField, string>;
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name'],
+  folder: ['folder', 'directory'],
+  description: ['description', 'summary'],
+  tags: ['tags', 'labels', 'categories'],
+  provider: ['provider', 'vendor'],
+  model: ['model'],
+  format: ['format'],
+  content: ['content', 'prompt', 'text', 'body', 'template'],
+  variables: ['variables', 'inputs', 'params'],
+};
+
+// Keys found across the records, in order of first appearance
+export function recordKeys(records: ImportRecord[]): string[] {
+  return Array.from(new Set(records.flatMap(record => Object.keys(record))));
+}
+
+export function guessMapping(keys: string[]): FieldMapping {
+  const find = (aliases: string[]) =>
+    keys.find(key => aliases.includes(key.trim().toLowerCase())) ?? '';
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(field => [field, find(FIELD_ALIASES[field])])
+  ) as FieldMapping;
+}
+
+// Brings a mapped value closer to what PromptInput expects, e.g. "a, b" tags from a CSV cell
+function coerce(field: ImportField, value: unknown): unknown {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  switch (field) {
+    case 'tags':
+      return typeof value === 'string'
+        ? value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean)
+        : Array.isArray(value) ? value.map(String) : value;
+    case 'variables':
+      if (typeof value === 'string') {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+    case 'provider':
+    case 'format':
+      return typeof value === 'string' ? value.trim().toLowerCase() : value;
+    default:
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+  }
+}
+
+export interface ImportPlanEntry {
+  // Position in the file, counting from 1
+  row: number;
+  title: string;
+  input?: PromptInput;
+  error?: string;
+  // What the prompt duplicates: an existing prompt's title, or an earlier row
+  duplicateOf?: string;
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * The dry run: maps and validates every record and flags duplicates, by title
+ * or identical text, of existing prompts and of rows earlier in the file.
+ */
+export function planImport(records: ImportRecord[], mapping: FieldMapping, existing: Prompt[]): ImportPlanEntry[] {
+  const titles = new Map(existing.map(prompt => [normalizeTitle(prompt.title), `"${prompt.title}"`]));
+  const contents = new Map(
+    existing
+      .filter(prompt => prompt.content?.trim())
+      .map(prompt => [prompt.content!.trim(), `"${prompt.title}"`])
+  );
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const fields = Object.fromEntries(
+      IMPORT_FIELDS
+        .filter(field => mapping[field])
+        .map(field => [field, coerce(field, record[mapping[field]])])
+    );
+    const title = typeof fields.title === 'string' ? fields.title : `Row ${row}`;
+
+    let input: PromptInput;
+    try {
+      input = parsePromptInput(fields);
+    } catch (err) {
+      return { row, title, error: (err as Error).message };
+    }
+    // Placeholders in the text get a variable even when the file did not declare one
+    input = { ...input, variables: syncVariables(input.content, input.variables ?? []) };
+
+    const titleKey = normalizeTitle(input.title);
+    const contentKey = input.content.trim();
+    const duplicateOf = titles.get(titleKey) ?? contents.get(contentKey);
+    if (!titles.has(titleKey)) {
+      titles.set(titleKey, `row ${row}`);
+    }
+    if (contentKey && !contents.has(contentKey)) {
+      contents.set(contentKey, `row ${row}`);
+    }
+    return { row, title: input.title, input, ...(duplicateOf ? { duplicateOf } : {}) };
+  });
+}
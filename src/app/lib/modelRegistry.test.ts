@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_PROVIDERS, extendRegistry, findModel, modelOptions, providerInfo, providerName } from './modelRegistry';
+import { ValidationError } from './validation';
+
+describe('model registry', () => {
+  it('adds models to known providers and adds new providers', () => {
+    const registry = extendRegistry(BUILTIN_PROVIDERS, {
+      providers: [
+        { id: 'openai', models: [{ id: 'gpt-4o', contextWindow: 64000 }, { id: 'ft:gpt-4o:acme' }] },
+        { id: 'local', name: 'Local', api: 'openai', models: [{ id: 'qwen', pricing: { input: 0, output: 0 } }] },
+      ],
+    });
+    expect(findModel(registry, 'openai', 'gpt-4o')).toEqual({ id: 'gpt-4o', contextWindow: 64000 });
+    expect(findModel(registry, 'openai', 'ft:gpt-4o:acme')).toEqual({ id: 'ft:gpt-4o:acme' });
+    expect(providerInfo(registry, 'local')).toEqual({
+      id: 'local',
+      name: 'Local',
+      api: 'openai',
+      tokenizer: 'generic',
+      models: [{ id: 'qwen', pricing: { input: 0, output: 0 } }],
+    });
+    // The base registry is left as it was
+    expect(findModel(BUILTIN_PROVIDERS, 'openai', 'ft:gpt-4o:acme')).toBeUndefined();
+  });
+
+  it('names the first bad field', () => {
+    expect(() => extendRegistry(BUILTIN_PROVIDERS, { providers: [{ id: 'new' }] }))
+      .toThrow(new ValidationError('providers[0] is a new provider and needs a name'));
+    expect(() => extendRegistry(BUILTIN_PROVIDERS, { providers: [{ id: 'openai', models: [{ id: 'x', contextWindow: 1.5 }] }] }))
+      .toThrow(new ValidationError('providers[0].models[0].contextWindow must be a whole number of tokens'));
+    expect(() => extendRegistry(BUILTIN_PROVIDERS, [])).toThrow(ValidationError);
+  });
+
+  it('looks up providers by own id only', () => {
+    expect(providerInfo(BUILTIN_PROVIDERS, 'constructor')).toBeUndefined();
+    expect(providerName(BUILTIN_PROVIDERS, 'toString')).toBe('toString');
+  });
+
+  it('offers deprecated models last and keeps a pinned model', () => {
+    const registry = extendRegistry({}, {
+      providers: [{ id: 'acme', name: 'Acme', models: [{ id: 'old', deprecated: true }, { id: 'new' }] }],
+    });
+    expect(modelOptions(registry, 'acme')).toEqual(['new', 'old']);
+    expect(modelOptions(registry, 'acme', 'custom')).toEqual(['custom', 'new', 'old']);
+  });
+});
@@ -0,0 +1,147 @@
+import { Provider } from '../types/prompt';
+import builtinProviders from './providers.json';
+import { TOKENIZERS, TokenizerFamily } from './tokens';
+import { ValidationError } from './validation';
+
+// The wire formats the playground can speak; most self-hosted servers offer the OpenAI one
+export const API_STYLES = ['openai', 'anthropic', 'google'] as const;
+
+export type ApiStyle = typeof API_STYLES[number];
+
+export interface ModelInfo {
+  id: string;
+  // Input tokens the model accepts, output included
+  contextWindow?: number;
+  // List price in USD per million tokens
+  pricing?: { input: number; output: number };
+  deprecated?: boolean;
+  // The model to move deprecated prompts to
+  replacedBy?: string;
+}
+
+export interface ProviderInfo {
+  id: Provider;
+  name: string;
+  api: ApiStyle;
+  // How token counts are estimated for the provider's models
+  tokenizer: TokenizerFamily;
+  models: ModelInfo[];
+}
+
+// Providers by id, in the order they are offered; look them up with providerInfo
+export type ProviderRegistry = Record<Provider, ProviderInfo>;
+
+// Where a library extends the registry, next to metadata.json
+export const PROVIDERS_PATH = 'providers.json';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+
+function parseModel(value: unknown, where: string): ModelInfo {
+  if (!isObject(value) || typeof value.id !== 'string' || value.id === '') {
+    throw new ValidationError(`${where} needs an id`);
+  }
+  const { id, contextWindow, pricing, deprecated, replacedBy } = value;
+  if (contextWindow !== undefined && !(Number.isInteger(contextWindow) && isPositive(contextWindow))) {
+    throw new ValidationError(`${where}.contextWindow must be a whole number of tokens`);
+  }
+  if (pricing !== undefined && !(isObject(pricing) && isPositive(pricing.input) && isPositive(pricing.output))) {
+    throw new ValidationError(`${where}.pricing needs input and output prices per million tokens`);
+  }
+  if (replacedBy !== undefined && typeof replacedBy !== 'string') {
+    throw new ValidationError(`${where}.replacedBy must be a model id`);
+  }
+  return {
+    id,
+    ...(contextWindow !== undefined ? { contextWindow: contextWindow as number } : {}),
+    ...(pricing !== undefined ? { pricing: pricing as ModelInfo['pricing'] } : {}),
+    ...(deprecated ? { deprecated: true } : {}),
+    ...(replacedBy !== undefined ? { replacedBy } : {}),
+  };
+}
+
+/**
+ * Reads a library's providers.json on top of a registry. A provider that is
+ * already known gets its models added to or replaced by id; any other provider
+ * is added and needs a name. Throws ValidationError naming the first bad field.
+ */
+export function extendRegistry(base: ProviderRegistry, data: unknown): ProviderRegistry {
+  if (!isObject(data) || !Array.isArray(data.providers)) {
+    throw new ValidationError(`${PROVIDERS_PATH} must be an object with a "providers" list`);
+  }
+
+  // Without a prototype, ids such as constructor or toString name nothing until a library adds them
+  const registry: ProviderRegistry = Object.assign(Object.create(null), base);
+  data.providers.forEach((value: unknown, index) => {
+    const where = `providers[${index}]`;
+    if (!isObject(value) || typeof value.id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(value.id)) {
+      throw new ValidationError(`${where} needs an id of lowercase letters, digits, - and _`);
+    }
+    const known = providerInfo(registry, value.id);
+    if (!known && typeof value.name !== 'string') {
+      throw new ValidationError(`${where} is a new provider and needs a name`);
+    }
+    if (value.api !== undefined && !API_STYLES.includes(value.api as ApiStyle)) {
+      throw new ValidationError(`${where}.api must be one of ${API_STYLES.join(', ')}`);
+    }
+    if (value.tokenizer !== undefined && !TOKENIZERS.includes(value.tokenizer as TokenizerFamily)) {
+      throw new ValidationError(`${where}.tokenizer must be one of ${TOKENIZERS.join(', ')}`);
+    }
+    if (value.models !== undefined && !Array.isArray(value.models)) {
+      throw new ValidationError(`${where}.models must be a list`);
+    }
+
+    const models = new Map((known?.models ?? []).map(model => [model.id, model]));
+    ((value.models ?? []) as unknown[]).forEach((model, modelIndex) => {
+      const parsed = parseModel(model, `${where}.models[${modelIndex}]`);
+      models.set(parsed.id, parsed);
+    });
+    registry[value.id] = {
+      id: value.id,
+      name: typeof value.name === 'string' ? value.name : known!.name,
+      api: (value.api as ApiStyle | undefined) ?? known?.api ?? 'openai',
+      tokenizer: (value.tokenizer as TokenizerFamily | undefined) ?? known?.tokenizer ?? 'generic',
+      models: [...models.values()],
+    };
+  });
+  return registry;
+}
+
+/**
+ * The providers every library starts with, in the same format as a library's
+ * providers.json. Prices are list prices when the file was last updated; a
+ * library can correct them.
+ */
+export const BUILTIN_PROVIDERS: ProviderRegistry = extendRegistry({}, builtinProviders);
+
+export const DEFAULT_PROVIDER: Provider = 'openai';
+
+// Only the registry's own entries count, whatever its prototype
+export function providerInfo(registry: ProviderRegistry, provider: Provider): ProviderInfo | undefined {
+  return Object.hasOwn(registry, provider) ? registry[provider] : undefined;
+}
+
+export function providerName(registry: ProviderRegistry, provider: Provider): string {
+  return providerInfo(registry, provider)?.name ?? provider;
+}
+
+export function findModel(registry: ProviderRegistry, provider: Provider, model: string): ModelInfo | undefined {
+  return providerInfo(registry, provider)?.models.find(info => info.id === model);
+}
+
+// Models to offer for a provider, deprecated ones last, keeping a pinned model that is not listed
+export function modelOptions(registry: ProviderRegistry, provider: Provider, current?: string): string[] {
+  const models = providerInfo(registry, provider)?.models ?? [];
+  const ids = [
+    ...models.filter(model => !model.deprecated),
+    ...models.filter(model => model.deprecated),
+  ].map(model => model.id);
+  return current && !ids.includes(current) ? [current, ...ids] : ids;
+}
+
+// The model a new prompt for the provider starts with
+export function defaultModel(registry: ProviderRegistry, provider: Provider): string {
+  return modelOptions(registry, provider)[0] ?? '';
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Prompt } from '../types/prompt';
+import { IncludeError, findIncluded, includedPrompts, includingPrompts, resolveIncludes } from './partials';
+
+const prompt = (id: string, fields: Partial<Prompt>): Prompt => ({
+  id,
+  title: id,
+  description: '',
+  tags: [],
+  provider: 'openai',
+  model: 'gpt-4o',
+  filename: `${id}-${id}.md`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  content: '',
+  ...fields,
+});
+
+const style = prompt('1', {
+  title: 'House Style',
+  filename: 'shared/house-style-1.md',
+  content: 'Write for {{audience}}.',
+  variables: [{ name: 'audience', type: 'string', default: 'engineers', required: false }],
+});
+const persona = prompt('2', {
+  title: 'Persona',
+  format: 'chat',
+  content: '<!-- role: system -->\nYou are careful.\n\n<!-- role: user -->\n{{> house-style}}',
+});
+const answer = prompt('3', { title: 'Answer', content: '{{> persona}}\n\nAnswer {{question}}' });
+
+describe('partials', () => {
+  it('finds included prompts by id, filename or title slug', () => {
+    const prompts = [style, persona, answer];
+    expect(findIncluded(prompts, '1')).toBe(style);
+    expect(findIncluded(prompts, 'shared/house-style-1')).toBe(style);
+    expect(findIncluded(prompts, 'house-style-1')).toBe(style);
+    expect(findIncluded(prompts, 'house-style')).toBe(style);
+    expect(findIncluded(prompts, 'missing')).toBeUndefined();
+  });
+
+  it('refuses a slug that fits several prompts', () => {
+    expect(() => findIncluded([style, prompt('4', { title: 'House style' })], 'house-style')).toThrow(IncludeError);
+  });
+
+  it('fills in includes recursively, without role markers in plain prompts', () => {
+    const resolved = resolveIncludes(answer, [style, persona, answer]);
+    expect(resolved.content).toBe('You are careful.\n\nWrite for {{audience}}.\n\nAnswer {{question}}');
+    expect(resolved.variables).toEqual([
+      { name: 'audience', type: 'string', default: 'engineers', required: false },
+      { name: 'question', type: 'string', required: true },
+    ]);
+  });
+
+  it('keeps role markers when a chat prompt is included in a chat prompt', () => {
+    const chat = prompt('5', { format: 'chat', content: '{{> persona}}' });
+    expect(resolveIncludes(chat, [style, persona, chat]).content).toBe(
+      '<!-- role: system -->\nYou are careful.\n\n<!-- role: user -->\nWrite for {{audience}}.'
+    );
+  });
+
+  it('reports missing includes and cycles', () => {
+    expect(() => resolveIncludes(answer, [answer])).toThrow('"Answer" includes "persona", which is not in this library');
+
+    const a = prompt('a', { title: 'A', content: '{{> b}}' });
+    const b = prompt('b', { title: 'B', content: '{{> a}}' });
+    let error: unknown;
+    try {
+      resolveIncludes(a, [a, b]);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(IncludeError);
+    expect((error as IncludeError).cycle).toBe(true);
+    expect((error as IncludeError).message).toBe('Includes form a cycle: "A" → "B" → "A"');
+  });
+
+  it('lists direct includes in both directions', () => {
+    const prompts = [style, persona, answer];
+    expect(includedPrompts(answer, prompts)).toEqual([persona]);
+    expect(includingPrompts(style, prompts)).toEqual([persona]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Prompt, PromptVariable } from '../types/prompt';
+import { isChat, promptText } from './chat';
+import { inFolder } from './storage/promptFile';
+import { syncVariables } from './template';
+
+// {{> house-style}} includes another prompt of the same library, by id or slug
+const INCLUDE = /\{\{>\s*([\w./-]+)\s*\}\}/g;
+
+// Thrown for an include that cannot be resolved; cycle is set when includes lead back to a prompt
+export class IncludeError extends Error {
+  constructor(message: string, public cycle = false) {
+    super(message);
+    this.name = 'IncludeError';
+  }
+}
+
+// A title in kebab case, as prompt filenames start with
+export function promptSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// The references a prompt's content includes, in order of first appearance
+export function extractIncludes(content: string): string[] {
+  const refs = new Set<string>();
+  for (const match of content.matchAll(INCLUDE)) {
+    refs.add(match[1]);
+  }
+  return [...refs];
+}
+
+/**
+ * Finds the prompt a reference names: its id, its filename without .md, with
+ * or without its folder, or the slug of its title. Throws IncludeError when a
+ * slug fits several prompts.
+ */
+export function findIncluded(prompts: Prompt[], ref: string): Prompt | undefined {
+  const exact = prompts.find(prompt =>
+    prompt.id === ref || [prompt.filename, inFolder(prompt.filename, '')].some(name => name.replace(/\.md$/, '') === ref)
+  );
+  if (exact) {
+    return exact;
+  }
+  const bySlug = prompts.filter(prompt => promptSlug(prompt.title) === ref);
+  if (bySlug.length > 1) {
+    throw new IncludeError(`"${ref}" matches ${bySlug.length} prompts; include one of them by id`);
+  }
+  return bySlug[0];
+}
+
+// The prompts a prompt includes directly; references that do not resolve are left out
+export function includedPrompts(prompt: Prompt, prompts: Prompt[]): Prompt[] {
+  return extractIncludes(prompt.content ?? '').flatMap(ref => {
+    try {
+      const included = findIncluded(prompts, ref);
+      return included && included.id !== prompt.id ? [included] : [];
+    } catch (err) {
+      if (err instanceof IncludeError) return [];
+      throw err;
+    }
+  });
+}
+
+// The prompts that include a prompt directly
+export function includingPrompts(prompt: Prompt, prompts: Prompt[]): Prompt[] {
+  return prompts.filter(other =>
+    other.id !== prompt.id && includedPrompts(other, prompts).some(included => included.id === prompt.id)
+  );
+}
+
+export interface ResolvedPrompt {
+  content: string;
+  // The prompt's variables followed by those of everything it includes
+  variables: PromptVariable[];
+}
+
+/**
+ * Replaces every include with the included prompt's content, recursively.
+ * A chat prompt included in a plain one contributes its text without role
+ * markers. Throws IncludeError for a reference that does not resolve and for
+ * includes that form a cycle.
+ */
+export function resolveIncludes(prompt: Prompt, prompts: Prompt[]): ResolvedPrompt {
+  const included: Prompt[] = [];
+
+  const expand = (current: Prompt, chain: Prompt[]): string =>
+    (current.content ?? '').replace(INCLUDE, (_, ref: string) => {
+      const partial = findIncluded(prompts, ref);
+      if (!partial) {
+        throw new IncludeError(`"${current.title}" includes "${ref}", which is not in this library`);
+      }
+      const start = chain.findIndex(link => link.id === partial.id);
+      if (start !== -1) {
+        const cycle = [...chain.slice(start), partial].map(link => `"${link.title}"`);
+        throw new IncludeError(`Includes form a cycle: ${cycle.join(' → ')}`, true);
+      }
+      included.push(partial);
+      const text = expand(partial, [...chain, partial]);
+      return isChat(partial) && !isChat(prompt) ? promptText({ format: 'chat', content: text }) : text;
+    });
+
+  const content = expand(prompt, [prompt]);
+  return {
+    content,
+    variables: syncVariables(content, [
+      ...(prompt.variables ?? []),
+      ...included.flatMap(partial => partial.variables ?? []),
+    ]),
+  };
+}
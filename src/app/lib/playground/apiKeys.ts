@@ -0,0 +1,17 @@
+import { Provider } from '../../types/prompt';
+
+// Provider API keys stay in this browser and are only sent along with playground runs
+
+const storageKey = (provider: Provider) => `prompt-gitter:api-key:${provider}`;
+
+export function loadApiKey(provider: Provider): string {
+  return localStorage.getItem(storageKey(provider)) ?? '';
+}
+
+export function saveApiKey(provider: Provider, apiKey: string): void {
+  if (apiKey) {
+    localStorage.setItem(storageKey(provider), apiKey);
+  } else {
+    localStorage.removeItem(storageKey(provider));
+  }
+}
@@ -0,0 +1,35 @@
+import { PlaygroundEvent, PlaygroundRequest } from './types';
+
+// Sends a run to /api/playground and yields its events as they arrive
+export async function* runPlayground(request: PlaygroundRequest, signal?: AbortSignal): AsyncGenerator<PlaygroundEvent> {
+  const response = await fetch('/api/playground', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || 'Failed to run prompt');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+
+    if (done) return;
+  }
+}
@@ -0,0 +1,204 @@
+import { Provider } from '../../types/prompt';
+import { ChatMessage, toAnthropicPayload, toOpenAIMessages } from '../chat';
+import { API_STYLES, ApiStyle } from '../modelRegistry';
+import { PlaygroundEvent, PlaygroundRequest } from './types';
+
+// Server-only: calls provider APIs on behalf of the playground route.
+
+interface ProviderEndpoint {
+  style: ApiStyle;
+  baseUrl: string;
+}
+
+// Meta has no first-party API, so it defaults to a local Ollama server
+const DEFAULT_ENDPOINTS: Record<string, ProviderEndpoint> = {
+  openai: { style: 'openai', baseUrl: 'https://api.openai.com/v1' },
+  anthropic: { style: 'anthropic', baseUrl: 'https://api.anthropic.com/v1' },
+  google: { style: 'google', baseUrl: 'https://generativelanguage.googleapis.com/v1beta' },
+  xai: { style: 'openai', baseUrl: 'https://api.x.ai/v1' },
+  meta: { style: 'openai', baseUrl: 'http://localhost:11434/v1' },
+  mistral: { style: 'openai', baseUrl: 'https://api.mistral.ai/v1' },
+};
+
+const ANTHROPIC_MAX_TOKENS = 1024;
+
+/**
+ * Base URLs can be overridden per provider with <PROVIDER>_BASE_URL, for
+ * example OPENAI_BASE_URL=http://localhost:11434/v1 to use Ollama or a mock.
+ * Providers from a library's providers.json only run once the server sets
+ * theirs, so the playground never calls a URL a repository chose.
+ */
+export function providerEndpoint(provider: Provider, api?: ApiStyle): ProviderEndpoint {
+  const variable = `${provider.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_BASE_URL`;
+  const override = process.env[variable];
+  const endpoint = DEFAULT_ENDPOINTS[provider] ?? (override ? { style: api ?? 'openai', baseUrl: override } : null);
+  if (!endpoint) {
+    throw new Error(`Set ${variable} on the server to run ${provider} prompts in the playground`);
+  }
+  if (!API_STYLES.includes(endpoint.style)) {
+    throw new Error(`Unknown API style: ${endpoint.style}`);
+  }
+  return { ...endpoint, baseUrl: (override || endpoint.baseUrl).replace(/\/+$/, '') };
+}
+
+// Yields the payload of each `data:` line of a server-sent event stream
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Provider returned ${response.status}: ${text.slice(0, 500)}`);
+  }
+  return response.body;
+}
+
+function conversation({ prompt, messages }: PlaygroundRequest): ChatMessage[] {
+  return messages ?? [{ role: 'user', content: prompt }];
+}
+
+async function* streamOpenAI(
+  baseUrl: string,
+  request: PlaygroundRequest,
+  signal?: AbortSignal
+): AsyncGenerator<PlaygroundEvent> {
+  const { model, apiKey } = request;
+  const body = await post(
+    `${baseUrl}/chat/completions`,
+    apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    {
+      model,
+      messages: toOpenAIMessages(conversation(request)),
+      stream: true,
+      stream_options: { include_usage: true },
+    },
+    signal
+  );
+
+  for await (const data of sseData(body)) {
+    if (data === '[DONE]') break;
+    const chunk = JSON.parse(data);
+    const text = chunk.choices?.[0]?.delta?.content;
+    if (text) {
+      yield { type: 'delta', text };
+    }
+    if (chunk.usage) {
+      yield {
+        type: 'usage',
+        inputTokens: chunk.usage.prompt_tokens,
+        outputTokens: chunk.usage.completion_tokens,
+      };
+    }
+  }
+}
+
+async function* streamAnthropic(
+  baseUrl: string,
+  request: PlaygroundRequest,
+  signal?: AbortSignal
+): AsyncGenerator<PlaygroundEvent> {
+  const { model, apiKey } = request;
+  const body = await post(
+    `${baseUrl}/messages`,
+    { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+    {
+      model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      ...toAnthropicPayload(conversation(request)),
+      stream: true,
+    },
+    signal
+  );
+
+  let inputTokens: number | undefined;
+  for await (const data of sseData(body)) {
+    const event = JSON.parse(data);
+    if (event.type === 'message_start') {
+      inputTokens = event.message?.usage?.input_tokens;
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      yield { type: 'delta', text: event.delta.text };
+    } else if (event.type === 'message_delta' && event.usage) {
+      yield { type: 'usage', inputTokens, outputTokens: event.usage.output_tokens };
+    } else if (event.type === 'error') {
+      throw new Error(event.error?.message ?? 'Provider stream failed');
+    }
+  }
+}
+
+async function* streamGoogle(
+  baseUrl: string,
+  request: PlaygroundRequest,
+  signal?: AbortSignal
+): AsyncGenerator<PlaygroundEvent> {
+  const { model, apiKey } = request;
+  const messages = conversation(request);
+  const system = messages.filter(message => message.role === 'system');
+  const body = await post(
+    `${baseUrl}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`,
+    { 'x-goog-api-key': apiKey },
+    {
+      ...(system.length > 0
+        ? { systemInstruction: { parts: system.map(message => ({ text: message.content })) } }
+        : {}),
+      // Gemini calls the assistant "model"
+      contents: messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role === 'assistant' ? 'model' : 'user', parts: [{ text: message.content }] })),
+    },
+    signal
+  );
+
+  for await (const data of sseData(body)) {
+    const chunk = JSON.parse(data);
+    const parts: { text?: string }[] = chunk.candidates?.[0]?.content?.parts ?? [];
+    const text = parts.map(part => part.text ?? '').join('');
+    if (text) {
+      yield { type: 'delta', text };
+    }
+    if (chunk.usageMetadata) {
+      yield {
+        type: 'usage',
+        inputTokens: chunk.usageMetadata.promptTokenCount,
+        outputTokens: chunk.usageMetadata.candidatesTokenCount,
+      };
+    }
+  }
+}
+
+export function streamCompletion(request: PlaygroundRequest, signal?: AbortSignal): AsyncGenerator<PlaygroundEvent> {
+  const { style, baseUrl } = providerEndpoint(request.provider, request.api);
+
+  switch (style) {
+    case 'anthropic':
+      return streamAnthropic(baseUrl, request, signal);
+    case 'google':
+      return streamGoogle(baseUrl, request, signal);
+    default:
+      return streamOpenAI(baseUrl, request, signal);
+  }
+}
@@ -0,0 +1,21 @@
+import { Provider } from '../../types/prompt';
+import { ChatMessage } from '../chat';
+import { ApiStyle } from '../modelRegistry';
+
+export interface PlaygroundRequest {
+  provider: Provider;
+  // The wire format of a provider the server has no default endpoint for
+  api?: ApiStyle;
+  model: string;
+  prompt: string;
+  // Set for chat prompts, and sent instead of prompt as a single user message
+  messages?: ChatMessage[];
+  apiKey: string;
+}
+
+// Streamed from /api/playground as newline-delimited JSON
+export type PlaygroundEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Prompt } from '../types/prompt';
+import { buildSearchIndex, highlight, parseQuery, searchPrompts, snippet } from './search';
+
+const prompt = (id: string, fields: Partial<Prompt>): Prompt => ({
+  id,
+  title: '',
+  description: '',
+  tags: [],
+  provider: 'openai',
+  model: 'gpt-4o',
+  filename: `${id}.md`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  content: '',
+  ...fields,
+});
+
+const index = buildSearchIndex([
+  prompt('body', { title: 'Ticket triage', content: 'Summarize the support request', tags: ['support'] }),
+  prompt('title', { title: 'Summarize meeting notes', tags: ['rag', 'draft'], provider: 'anthropic', model: 'claude-3-5-sonnet-latest' }),
+  prompt('chat', { title: 'Assistant', format: 'chat', content: '[system]\nYou summarize documents\n' }),
+]);
+
+const ids = (query: string) => searchPrompts(index, query).map(result => result.prompt.id);
+
+describe('search', () => {
+  it('parses filters, phrases and negation', () => {
+    expect(parseQuery('tag:RAG -draft "exact phrase" color:red')).toEqual([
+      { field: 'tag', value: 'rag', negated: false },
+      { field: undefined, value: 'draft', negated: true },
+      { field: undefined, value: 'exact phrase', negated: false },
+      { value: 'color:red', negated: false },
+    ]);
+  });
+
+  it('ranks title hits above body hits', () => {
+    expect(ids('summarize')).toEqual(['title', 'body', 'chat']);
+  });
+
+  it('keeps only prompts matching every filter', () => {
+    expect(ids('tag:rag provider:anthropic model:sonnet')).toEqual(['title']);
+    expect(ids('summarize -tag:draft')).toEqual(['body', 'chat']);
+    expect(ids('summarize -support')).toEqual(['title', 'chat']);
+    expect(ids('"support request"')).toEqual(['body']);
+  });
+
+  it('keeps the index order without free-text terms', () => {
+    expect(ids('')).toEqual(['body', 'title', 'chat']);
+  });
+
+  it('highlights every occurrence, ignoring case', () => {
+    expect(highlight('Summarize, then summarize again', ['summarize'])).toEqual([
+      { text: 'Summarize', match: true },
+      { text: ', then ', match: false },
+      { text: 'summarize', match: true },
+      { text: ' again', match: false },
+    ]);
+  });
+
+  it('excerpts the text around the first hit', () => {
+    const text = `${'a '.repeat(50)}needle${' b'.repeat(100)}`;
+    const parts = snippet(text, ['needle'], 10)!;
+    expect(parts.map(part => part.text).join('')).toBe(`…${'a '.repeat(5)}needle${' b'.repeat(7)}…`);
+    expect(parts.filter(part => part.match)).toEqual([{ text: 'needle', match: true }]);
+    expect(snippet(text, ['missing'])).toBeNull();
+  });
+});
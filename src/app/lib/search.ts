@@ -0,0 +1,175 @@
+import { Prompt } from '../types/prompt';
+import { promptText } from './chat';
+
+export type SearchField = 'tag' | 'provider' | 'model';
+
+const SEARCH_FIELDS: SearchField[] = ['tag', 'provider', 'model'];
+
+export interface SearchClause {
+  // Set for filters such as tag:rag, unset for free text and quoted phrases
+  field?: SearchField;
+  // Lowercased
+  value: string;
+  negated: boolean;
+}
+
+// A hit in the title counts for more than a hit in the body
+const FIELD_WEIGHTS = { title: 8, tags: 4, description: 2, content: 1 } as const;
+
+// Repeated hits in one field stop adding to the score after this many
+const MAX_COUNTED_HITS = 3;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+export interface SearchDocument {
+  prompt: Prompt;
+  // Lowercased text of each indexed field
+  fields: Record<IndexedField, string>;
+}
+
+export interface SearchResult {
+  prompt: Prompt;
+  score: number;
+  // Free-text terms and phrases to highlight in the result
+  terms: string[];
+}
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+const CLAUSE_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Parses a query such as `tag:rag provider:anthropic "exact phrase" -draft`.
+ * A leading `-` negates any clause, and an unknown `name:` prefix is searched
+ * for as plain text.
+ */
+export function parseQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+
+  for (const [, minus, name, phrase, word] of query.matchAll(CLAUSE_PATTERN)) {
+    const value = (phrase ?? word).toLowerCase();
+    const field = name?.toLowerCase() as SearchField | undefined;
+    const negated = minus === '-';
+
+    if (field && !SEARCH_FIELDS.includes(field)) {
+      clauses.push({ value: `${field}:${value}`, negated });
+    } else if (value) {
+      clauses.push({ field, value, negated });
+    }
+  }
+  return clauses;
+}
+
+export function buildSearchIndex(prompts: Prompt[]): SearchDocument[] {
+  return prompts.map(prompt => ({
+    prompt,
+    fields: {
+      title: prompt.title.toLowerCase(),
+      tags: prompt.tags.join('\n').toLowerCase(),
+      description: prompt.description.toLowerCase(),
+      content: promptText(prompt).toLowerCase(),
+    },
+  }));
+}
+
+function countHits(text: string, term: string): number {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1 && count < MAX_COUNTED_HITS; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+function matchesFilter(prompt: Prompt, { field, value }: SearchClause): boolean {
+  switch (field) {
+    case 'tag':
+      return prompt.tags.some(tag => tag.toLowerCase() === value);
+    case 'provider':
+      return prompt.provider.toLowerCase() === value;
+    case 'model':
+      return prompt.model.toLowerCase().includes(value);
+    default:
+      return true;
+  }
+}
+
+function scoreText(document: SearchDocument, term: string): number {
+  return (Object.keys(FIELD_WEIGHTS) as IndexedField[]).reduce(
+    (score, field) => score + FIELD_WEIGHTS[field] * countHits(document.fields[field], term),
+    0
+  );
+}
+
+/**
+ * Returns the prompts matching every clause of the query. Free-text terms are
+ * ranked by where and how often they occur; with no terms the index order is kept.
+ */
+export function searchPrompts(index: SearchDocument[], query: string): SearchResult[] {
+  const clauses = parseQuery(query);
+  const terms = clauses.filter(clause => !clause.field && !clause.negated).map(clause => clause.value);
+  const results: SearchResult[] = [];
+
+  for (const document of index) {
+    let score = 0;
+    const matches = clauses.every(clause => {
+      if (clause.field) {
+        return matchesFilter(document.prompt, clause) !== clause.negated;
+      }
+      const clauseScore = scoreText(document, clause.value);
+      score += clause.negated ? 0 : clauseScore;
+      return (clauseScore > 0) !== clause.negated;
+    });
+
+    if (matches) {
+      results.push({ prompt: document.prompt, score, terms });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+// Splits text into runs that do and do not match any of the terms, ignoring case
+export function highlight(text: string, terms: string[]): HighlightPart[] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1 && term; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: HighlightPart[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (end <= position) continue;
+    if (start > position) {
+      parts.push({ text: text.slice(position, start), match: false });
+    }
+    parts.push({ text: text.slice(Math.max(start, position), end), match: true });
+    position = end;
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), match: false });
+  }
+  return parts;
+}
+
+// A short excerpt around the first term found in text, or null if none occurs
+export function snippet(text: string, terms: string[], radius = 60): HighlightPart[] | null {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const hits = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+  if (hits.length === 0) {
+    return null;
+  }
+
+  const first = Math.min(...hits);
+  const start = Math.max(0, first - radius);
+  const end = Math.min(flat.length, first + radius * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  return highlight(excerpt, terms);
+}
@@ -0,0 +1,51 @@
+import { BLOB_STORE, RESPONSE_STORE, withStore } from './indexedDb';
+import { BlobCache, CachedResponse, GitBackend, ResponseCache } from './types';
+
+// A failed cache read or write only costs a network request
+export const indexedDbBlobCache: BlobCache = {
+  get: sha => withStore<string>(BLOB_STORE, 'readonly', store => store.get(sha)),
+  set: async (sha, content) => {
+    await withStore(BLOB_STORE, 'readwrite', store => store.put(content, sha));
+  },
+};
+
+export const indexedDbResponseCache: ResponseCache = {
+  get: url => withStore<CachedResponse>(RESPONSE_STORE, 'readonly', store => store.get(url)),
+  set: async (url, response) => {
+    await withStore(RESPONSE_STORE, 'readwrite', store => store.put(response, url));
+  },
+};
+
+// Drops everything cached, for example when the user signs out
+export async function clearIndexedDbCache(): Promise<void> {
+  await withStore(BLOB_STORE, 'readwrite', store => store.clear());
+  await withStore(RESPONSE_STORE, 'readwrite', store => store.clear());
+}
+
+// Serves blobs from the cache and only asks the backend for the ones it has not seen
+export function withBlobCache(backend: GitBackend, cache: BlobCache): GitBackend {
+  return {
+    ...backend,
+
+    async readBlobs(shas) {
+      const contents: Record<string, string> = {};
+      const missing: string[] = [];
+
+      await Promise.all(shas.map(async sha => {
+        const cached = await cache.get(sha);
+        if (cached === undefined) {
+          missing.push(sha);
+        } else {
+          contents[sha] = cached;
+        }
+      }));
+
+      if (missing.length > 0) {
+        const fetched = await backend.readBlobs(missing);
+        await Promise.all(Object.entries(fetched).map(([sha, content]) => cache.set(sha, content)));
+        Object.assign(contents, fetched);
+      }
+      return contents;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { Prompt } from '../../types/prompt';
+
+// Thrown when the branch moved between reading it and committing on top of it
+export class RefUpdateRejectedError extends Error {
+  constructor(public branch: string) {
+    super(`Your changes were not saved because ${branch} was updated by someone else. Reload and try again.`);
+    this.name = 'RefUpdateRejectedError';
+  }
+}
+
+/**
+ * Thrown when the stored prompt no longer matches the version the edit started
+ * from. remote is the current stored version, or null if it was deleted.
+ */
+export class PromptConflictError extends Error {
+  constructor(public remote: Prompt | null) {
+    super(remote
+      ? `"${remote.title}" was changed by someone else since you opened it.`
+      : 'This prompt was deleted by someone else since you opened it.');
+    this.name = 'PromptConflictError';
+  }
+}
+
+// Thrown for a library written by a newer version of the app, which this one must not overwrite
+export class UnsupportedSchemaError extends Error {
+  constructor(public schemaVersion: number) {
+    super(`This library uses metadata schema version ${schemaVersion}, which is newer than this version of Prompt Gitter supports. Update Prompt Gitter to open it.`);
+    this.name = 'UnsupportedSchemaError';
+  }
+}
+
+// Thrown when GitHub refuses to merge a proposal, usually because its prompt was changed since it was opened
+export class ProposalNeedsUpdateError extends Error {
+  constructor(public number: number) {
+    super(`#${number} needs an update: its prompt was changed since it was proposed, so it no longer merges cleanly. Update the branch on GitHub, or close it and propose the change again.`);
+    this.name = 'ProposalNeedsUpdateError';
+  }
+}
@@ -0,0 +1,293 @@
+import { RefUpdateRejectedError } from './errors';
+import { CommitInfo, FileChange, GitBackend, RepoHead, ResponseCache, TreeEntry } from './types';
+
+const GITHUB_API = 'https://api.github.com';
+
+// Blobs fetched per GraphQL query; GitHub caps the nodes a single query may touch
+const GRAPHQL_BATCH_SIZE = 100;
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+export interface GitHubRepo {
+  owner: string;
+  repo: string;
+  accessToken: string;
+  // Defaults to the repository's default branch
+  branch?: string;
+}
+
+export class GitHubError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GitHubError';
+  }
+}
+
+interface CommitSummary {
+  sha: string;
+  html_url: string;
+  parents: { sha: string }[];
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+  };
+}
+
+export function githubHeaders(accessToken: string): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${accessToken}`,
+    'Accept': 'application/vnd.github.v3+json',
+  };
+}
+
+export function repoUrl({ owner, repo }: GitHubRepo, path: string): string {
+  const base = `${GITHUB_API}/repos/${owner}/${repo}`;
+  return path ? `${base}/${path}` : base;
+}
+
+export function encodeBase64(text: string): string {
+  return btoa(unescape(encodeURIComponent(text)));
+}
+
+export function decodeBase64(content: string): string {
+  return decodeURIComponent(escape(atob(content.replace(/\n/g, ''))));
+}
+
+/**
+ * GETs go out with the ETag of the cached response, if any. A 304 reuses the
+ * cached body and does not count against the rate limit, and while offline the
+ * cached body is served as is.
+ */
+export async function githubJson<T>(
+  url: string,
+  accessToken: string,
+  init: RequestInit = {},
+  cache?: ResponseCache
+): Promise<T> {
+  const isGet = (init.method ?? 'GET') === 'GET';
+  const cached = isGet ? await cache?.get(url) : undefined;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        ...githubHeaders(accessToken),
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(cached ? { 'If-None-Match': cached.etag } : {}),
+      },
+    });
+  } catch (err) {
+    if (cached) {
+      return cached.body as T;
+    }
+    throw err;
+  }
+
+  if (response.status === 304 && cached) {
+    return cached.body as T;
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new GitHubError(data.message || `GitHub request failed: ${url}`, response.status);
+  }
+
+  // Deletes answer with no content
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const body = await response.json();
+  const etag = response.headers.get('ETag');
+  if (isGet && etag) {
+    await cache?.set(url, { etag, body });
+  }
+  return body;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string }[];
+}
+
+export function createGitHubBackend(repo: GitHubRepo, cache?: ResponseCache): GitBackend {
+  const request = <T>(path: string, init?: RequestInit) =>
+    githubJson<T>(repoUrl(repo, path), repo.accessToken, init, cache);
+
+  // Resolves to null on a 404
+  const find = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await request<T>(path);
+    } catch (err) {
+      if (err instanceof GitHubError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  };
+
+  const branchName = async () =>
+    repo.branch || (await request<{ default_branch: string }>('')).default_branch;
+
+  return {
+    webUrl: `https://github.com/${repo.owner}/${repo.repo}${repo.branch ? `/tree/${repo.branch}` : ''}`,
+
+    // The repository and, if one is configured, the branch
+    async exists() {
+      if (!(await find(''))) {
+        return false;
+      }
+      return !repo.branch || (await find(`git/ref/heads/${repo.branch}`)) !== null;
+    },
+
+    /**
+     * Creates whatever exists() found missing: the repository, under the user or
+     * an organization, and then the branch, started from the default branch.
+     * Creating a private repository needs the repo scope.
+     */
+    async initialize(options = {}) {
+      const existing = await find<{ default_branch: string }>('');
+      if (!existing) {
+        const user = await githubJson<{ login: string }>(`${GITHUB_API}/user`, repo.accessToken);
+        const isOwnRepo = user.login.toLowerCase() === repo.owner.toLowerCase();
+        await githubJson(isOwnRepo ? `${GITHUB_API}/user/repos` : `${GITHUB_API}/orgs/${repo.owner}/repos`, repo.accessToken, {
+          method: 'POST',
+          body: JSON.stringify({
+            name: repo.repo,
+            description: 'Repository for storing and managing AI prompts',
+            private: options.private ?? false,
+            auto_init: true,
+          }),
+        });
+      }
+
+      if (repo.branch && !(await find(`git/ref/heads/${repo.branch}`))) {
+        const defaultBranch = existing?.default_branch
+          ?? (await request<{ default_branch: string }>('')).default_branch;
+        const base = await request<{ object: { sha: string } }>(`git/ref/heads/${defaultBranch}`);
+        await request('git/refs', {
+          method: 'POST',
+          body: JSON.stringify({ ref: `refs/heads/${repo.branch}`, sha: base.object.sha }),
+        });
+      }
+    },
+
+    async getHead() {
+      const branch = await branchName();
+      const ref = await request<{ object: { sha: string } }>(`git/ref/heads/${branch}`);
+      return { branch, commitSha: ref.object.sha };
+    },
+
+    // Reads a file at a given commit. Returns null when the file did not exist there.
+    async readFile(path, ref) {
+      const data = await find<{ content: string }>(`contents/${path}?ref=${ref}`);
+      return data && decodeBase64(data.content);
+    },
+
+    async listFiles(ref) {
+      const { tree, truncated } = await request<{
+        tree: { path: string; type: string; sha: string }[];
+        truncated: boolean;
+      }>(`git/trees/${ref}?recursive=1`);
+
+      if (truncated) {
+        throw new GitHubError('Repository tree is too large to list in one request', 413);
+      }
+      return tree
+        .filter(entry => entry.type === 'blob')
+        .map(({ path, sha }): TreeEntry => ({ path, sha }));
+    },
+
+    // Fetches blobs through GraphQL, up to GRAPHQL_BATCH_SIZE per request
+    async readBlobs(shas) {
+      const contents: Record<string, string> = {};
+      const valid = shas.filter(sha => SHA_PATTERN.test(sha));
+
+      for (let start = 0; start < valid.length; start += GRAPHQL_BATCH_SIZE) {
+        const batch = valid.slice(start, start + GRAPHQL_BATCH_SIZE);
+        const fields = batch.map((sha, index) => `b${index}: object(oid: "${sha}") { ... on Blob { text } }`);
+
+        const { data, errors } = await githubJson<GraphQLResponse<{
+          repository: Record<string, { text: string | null } | null>;
+        }>>(`${GITHUB_API}/graphql`, repo.accessToken, {
+          method: 'POST',
+          body: JSON.stringify({
+            query: `query($owner: String!, $name: String!) { repository(owner: $owner, name: $name) { ${fields.join(' ')} } }`,
+            variables: { owner: repo.owner, name: repo.repo },
+          }),
+        });
+        if (!data) {
+          throw new GitHubError(errors?.[0]?.message ?? 'GitHub GraphQL request failed', 502);
+        }
+
+        batch.forEach((sha, index) => {
+          const text = data.repository[`b${index}`]?.text;
+          if (typeof text === 'string') {
+            contents[sha] = text;
+          }
+        });
+      }
+      return contents;
+    },
+
+    /**
+     * Writes all changes as a single commit on top of head using the Git Data API.
+     * The branch is only moved if it still points at head, so a concurrent write
+     * surfaces as a RefUpdateRejectedError instead of a half-applied change.
+     */
+    async commit(head: RepoHead, message: string, changes: FileChange[]) {
+      const parent = await request<{ tree: { sha: string } }>(`git/commits/${head.commitSha}`);
+
+      const entries = await Promise.all(
+        changes.map(async ({ path, content }) => {
+          if (content === null) {
+            return { path, mode: '100644', type: 'blob', sha: null };
+          }
+          const blob = await request<{ sha: string }>('git/blobs', {
+            method: 'POST',
+            body: JSON.stringify({ content: encodeBase64(content), encoding: 'base64' }),
+          });
+          return { path, mode: '100644', type: 'blob', sha: blob.sha };
+        })
+      );
+
+      const tree = await request<{ sha: string }>('git/trees', {
+        method: 'POST',
+        body: JSON.stringify({ base_tree: parent.tree.sha, tree: entries }),
+      });
+
+      const commit = await request<{ sha: string }>('git/commits', {
+        method: 'POST',
+        body: JSON.stringify({ message, tree: tree.sha, parents: [head.commitSha] }),
+      });
+
+      try {
+        await request(`git/refs/heads/${head.branch}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ sha: commit.sha, force: false }),
+        });
+      } catch (err) {
+        if (err instanceof GitHubError && (err.status === 409 || err.status === 422)) {
+          throw new RefUpdateRejectedError(head.branch);
+        }
+        throw err;
+      }
+
+      return commit.sha;
+    },
+
+    async listCommits(path): Promise<CommitInfo[]> {
+      const commits = await request<CommitSummary[]>(
+        `commits?path=${encodeURIComponent(path)}&sha=${encodeURIComponent(await branchName())}&per_page=50`
+      );
+
+      return commits.map(commit => ({
+        sha: commit.sha,
+        message: commit.commit.message,
+        author: commit.commit.author?.name ?? 'unknown',
+        date: commit.commit.author?.date ?? '',
+        url: commit.html_url,
+        ...(commit.parents.length > 0 ? { parent: commit.parents[0].sha } : {}),
+      }));
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { RefUpdateRejectedError } from './errors';
+import { GitBackend } from './types';
+
+export type GitOperation = Exclude<keyof GitBackend, 'webUrl'>;
+
+async function callServer<T>(branch: string | undefined, op: GitOperation, args: unknown[] = []): Promise<T> {
+  const response = await fetch('/api/storage', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ op, args, branch }),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (response.status === 409) {
+    throw new RefUpdateRejectedError(data.branch);
+  }
+  if (!response.ok) {
+    throw new Error(data.message || `Storage request failed: ${op}`);
+  }
+
+  return data.result;
+}
+
+// Forwards every git operation to the server-side repository behind /api/storage
+export function createHttpBackend(branch?: string): GitBackend {
+  const call = <T>(op: GitOperation, args?: unknown[]) => callServer<T>(branch, op, args);
+
+  return {
+    exists: () => call('exists'),
+    initialize: () => call('initialize'),
+    getHead: () => call('getHead'),
+    readFile: (path, ref) => call('readFile', [path, ref]),
+    listFiles: (ref) => call('listFiles', [ref]),
+    readBlobs: (shas) => call('readBlobs', [shas]),
+    commit: (head, message, changes) => call('commit', [head, message, changes]),
+    listCommits: (path) => call('listCommits', [path]),
+  };
+}
@@ -0,0 +1,53 @@
+const DB_NAME = 'prompt-gitter-cache';
+const DB_VERSION = 2;
+
+export const BLOB_STORE = 'blobs';
+export const RESPONSE_STORE = 'responses';
+export const PENDING_STORE = 'pending';
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is missing or blocked, which turns caching and queueing off
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of [BLOB_STORE, RESPONSE_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        }
+        if (!db.objectStoreNames.contains(PENDING_STORE)) {
+          db.createObjectStore(PENDING_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return database;
+}
+
+// Runs one request against a store. Resolves to undefined if the database or the request fails.
+export async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) {
+    return undefined;
+  }
+
+  return new Promise(resolve => {
+    const request = operation(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+}
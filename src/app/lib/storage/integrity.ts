@@ -0,0 +1,114 @@
+import { Prompt, PromptMetadata } from '../../types/prompt';
+import { METADATA_PATH, metadataOf, promptPath } from './promptFile';
+import { InvalidEntry, LibraryProblem } from './types';
+
+// A prompt file with neither front matter nor a metadata.json entry
+export interface OrphanFile {
+  filename: string;
+  content: string;
+}
+
+// What a check needs to know about a library at one commit
+export interface LibrarySnapshot {
+  prompts: Prompt[];
+  orphans: OrphanFile[];
+  invalid: InvalidEntry[];
+  // metadata.json entries as read, after upgrading to the current schema
+  indexEntries: unknown[];
+  // Every prompt file, readable or not
+  filenames: string[];
+}
+
+const problem = (kind: LibraryProblem['kind'], path: string, message: string, fix?: string): LibraryProblem => ({
+  key: `${kind}:${path}`,
+  kind,
+  path,
+  message,
+  ...(fix ? { fix } : {}),
+});
+
+// Whether two files hold the same prompt, front matter and text alike, whatever their names
+function sameFile(a: Prompt, b: Prompt): boolean {
+  return (a.content ?? '') === (b.content ?? '')
+    && JSON.stringify({ ...metadataOf(a), filename: '' }) === JSON.stringify({ ...metadataOf(b), filename: '' });
+}
+
+// When a file got its name, from the timestamp promptFilename puts in it
+function namedAt(prompt: Prompt): number {
+  const match = /-(\d{13})\d*\.md$/.exec(prompt.filename);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Finds what interrupted and racing writes leave behind: files nothing lists,
+ * metadata.json entries without a file, prompts sharing an id, and leftovers of
+ * renames. Entries for files that have front matter are ignored, since the
+ * front matter wins and the next save drops them. Problems that cannot be
+ * repaired automatically come without a fix.
+ */
+export function findProblems(library: LibrarySnapshot): LibraryProblem[] {
+  const problems: LibraryProblem[] = [];
+  const filenames = new Set(library.filenames);
+  const entries = library.indexEntries.map(entry => entry as Partial<PromptMetadata> | null);
+  const entryByFilename = new Map(
+    entries.filter(entry => typeof entry?.filename === 'string').map(entry => [entry!.filename!, entry])
+  );
+
+  // An orphan with the same text as a listed prompt is the old file of a rename that was never deleted
+  const contents = new Set(library.prompts.map(prompt => prompt.content ?? ''));
+  for (const orphan of library.orphans) {
+    const path = promptPath(orphan.filename);
+    problems.push(contents.has(orphan.content)
+      ? problem('leftover', path, 'Same text as a listed prompt, left behind by a rename', 'Delete the file')
+      : problem('orphan', path, 'Not listed in metadata.json and has no front matter', 'Adopt it with front matter, titled after the file'));
+  }
+
+  const orphaned = new Set(library.orphans.map(orphan => promptPath(orphan.filename)));
+  for (const entry of library.invalid) {
+    if (!orphaned.has(entry.path)) {
+      problems.push(problem('invalid', entry.path, entry.errors.join('; ')));
+    }
+  }
+
+  const byId = new Map<string, Prompt[]>();
+  for (const prompt of library.prompts) {
+    byId.set(prompt.id, [...byId.get(prompt.id) ?? [], prompt]);
+  }
+  for (const [id, group] of byId) {
+    if (group.length < 2) continue;
+    // The file an older metadata.json names keeps the id. Otherwise the oldest prompt does, and among copies
+    // created together the file named last, which is where a rename went. Exact copies of the kept file are
+    // what a rename left behind; copies that differ were made by hand and get a new id.
+    const listed = group.filter(prompt => entryByFilename.get(prompt.filename)?.id === id);
+    const kept = listed.length === 1
+      ? listed[0]
+      : group
+        .filter(prompt => prompt.createdAt === group[0].createdAt)
+        .reduce((latest, prompt) => namedAt(prompt) > namedAt(latest) ? prompt : latest);
+    group
+      .filter(prompt => prompt !== kept)
+      .forEach(prompt => problems.push(sameFile(prompt, kept)
+        ? problem(
+          'leftover',
+          promptPath(prompt.filename),
+          `Shares id ${id} with ${promptPath(kept.filename)}, left behind by a rename`,
+          'Delete the file'
+        )
+        : problem(
+          'duplicate-id',
+          promptPath(prompt.filename),
+          `Shares id ${id} with ${promptPath(kept.filename)}, but its content differs`,
+          'Give it a new id'
+        )));
+  }
+
+  entries.forEach((entry, index) => {
+    if (typeof entry?.filename !== 'string') {
+      problems.push(problem('dangling', `${METADATA_PATH}#${index + 1}`, `Entry ${index + 1} names no file`, 'Drop the entry'));
+    } else if (!filenames.has(entry.filename)) {
+      problems.push(problem('dangling', promptPath(entry.filename), 'Listed in metadata.json, but the file is missing', 'Drop the entry'));
+    }
+  });
+
+  return problems;
+}
@@ -0,0 +1,58 @@
+import { GitBackend } from './types';
+
+/** Where a prompt library lives. Empty branch means the default branch, empty baseDir the repository root. */
+export interface LibrarySettings {
+  owner: string;
+  repo: string;
+  branch: string;
+  baseDir: string;
+}
+
+export const DEFAULT_REPO = 'ai_prompts';
+
+export function defaultLibrary(username: string): LibrarySettings {
+  return { owner: username, repo: DEFAULT_REPO, branch: '', baseDir: '' };
+}
+
+// "/team//prompts/" becomes "team/prompts"
+export function normalizeBaseDir(dir: string): string {
+  return dir.split('/').map(part => part.trim()).filter(Boolean).join('/');
+}
+
+// Identifies a library, for keeping per-library state such as queued changes apart
+export function libraryKey({ owner, repo, branch, baseDir }: LibrarySettings): string {
+  return `${owner}/${repo}@${branch}:${baseDir}`;
+}
+
+export function describeLibrary({ owner, repo, branch, baseDir }: LibrarySettings): string {
+  return `${owner}/${repo}${branch ? ` on ${branch}` : ''}${baseDir ? ` in /${baseDir}` : ''}`;
+}
+
+/**
+ * Keeps the library in a subdirectory: paths are prefixed on the way in and
+ * files outside the directory are hidden from listings.
+ */
+export function withBaseDir(backend: GitBackend, baseDir: string): GitBackend {
+  const dir = normalizeBaseDir(baseDir);
+  if (!dir) {
+    return backend;
+  }
+  const prefix = `${dir}/`;
+
+  return {
+    ...backend,
+
+    readFile: (path, ref) => backend.readFile(prefix + path, ref),
+
+    async listFiles(ref) {
+      return (await backend.listFiles(ref))
+        .filter(entry => entry.path.startsWith(prefix))
+        .map(entry => ({ ...entry, path: entry.path.slice(prefix.length) }));
+    },
+
+    commit: (head, message, changes) =>
+      backend.commit(head, message, changes.map(change => ({ ...change, path: prefix + change.path }))),
+
+    listCommits: path => backend.listCommits(prefix + path),
+  };
+}
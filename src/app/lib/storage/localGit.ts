@@ -0,0 +1,285 @@
+import { execFile } from 'child_process';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ValidationError } from '../validation';
+import { RefUpdateRejectedError } from './errors';
+import { CommitInfo, FileChange, GitBackend, RepoHead, TreeEntry } from './types';
+
+// Server-only: shells out to the git binary, so never import this from a client component.
+
+const EMPTY_SHA = '0000000000000000000000000000000000000000';
+
+// Full SHA-1 or SHA-256 object names
+const COMMIT_SHA = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+// Branch names git check-ref-format accepts, minus ones that could be read as an option
+const BRANCH_NAME = /^(?![-/.])(?!.*(?:\.\.|@\{|\/\/|\/\.|\.lock\/|\.lock$))[^\s~^:?*[\\\x00-\x1f\x7f]+(?<![/.])$/;
+
+// Refs and paths can come from a request, so check them before they reach a git command line
+function checkBranch(name: string): string {
+  if (!BRANCH_NAME.test(name)) {
+    throw new ValidationError(`"${name}" is not a valid branch name`);
+  }
+  return name;
+}
+
+function checkRef(ref: string): string {
+  return COMMIT_SHA.test(ref) ? ref : checkBranch(ref);
+}
+
+function checkPath(filePath: string): string {
+  if (filePath === '' || /[\0\n\r]/.test(filePath)) {
+    throw new ValidationError(`"${filePath}" is not a valid path`);
+  }
+  return filePath;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export class LocalGitError extends Error {
+  constructor(command: string, stderr: string) {
+    super(`git ${command} failed: ${stderr.trim()}`);
+    this.name = 'LocalGitError';
+  }
+}
+
+// Thrown before committing when the checkout has uncommitted changes to files the commit would write
+export class DirtyWorkingTreeError extends Error {
+  constructor(public paths: string[]) {
+    super(`Commit or discard your changes to ${paths.join(', ')} first; they would overwrite this change`);
+    this.name = 'DirtyWorkingTreeError';
+  }
+}
+
+interface GitOptions {
+  input?: string;
+  env?: Record<string, string>;
+}
+
+// Output comes back as a Buffer because cat-file --batch reports sizes in bytes
+function runGitRaw(repoPath: string, args: string[], options: GitOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      ['-C', repoPath, ...args],
+      { env: { ...process.env, ...options.env }, maxBuffer: 64 * 1024 * 1024, encoding: 'buffer' },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new LocalGitError(args[0], stderr.toString() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+    // git exits early on failures such as a missing repository, so ignore EPIPE here
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(options.input ?? '');
+  });
+}
+
+async function runGit(repoPath: string, args: string[], options?: GitOptions): Promise<string> {
+  return (await runGitRaw(repoPath, args, options)).toString('utf8');
+}
+
+/**
+ * A prompt library in a git repository on the server's disk. Bare and working
+ * repositories both work: commits are built with plumbing against a scratch
+ * index, and a working checkout is fast-forwarded afterwards. branch defaults
+ * to the one HEAD points at.
+ */
+export function createLocalGitBackend(repoPath: string, author: GitAuthor, branch?: string): GitBackend {
+  if (branch) checkBranch(branch);
+  const git = (args: string[], options?: GitOptions) => runGit(repoPath, args, options);
+
+  const authorEnv = {
+    GIT_AUTHOR_NAME: author.name,
+    GIT_AUTHOR_EMAIL: author.email,
+    GIT_COMMITTER_NAME: author.name,
+    GIT_COMMITTER_EMAIL: author.email,
+  };
+
+  const resolveRef = (ref: string) => git(['rev-parse', '--verify', '--quiet', ref])
+    .then(out => out.trim())
+    .catch(() => '');
+
+  const isRepository = () => git(['rev-parse', '--git-dir']).then(() => true, () => false);
+
+  const backend: GitBackend = {
+    async exists() {
+      return await isRepository() && (!branch || (await resolveRef(`refs/heads/${branch}`)) !== '');
+    },
+
+    // Creates the repository if needed, then starts the branch from HEAD or with a first commit
+    async initialize() {
+      if (!(await isRepository())) {
+        await mkdir(repoPath, { recursive: true });
+        await git(['init', '--bare']);
+      }
+
+      const head = await backend.getHead();
+      if (head.commitSha) {
+        return;
+      }
+      const start = await resolveRef('HEAD');
+      if (start) {
+        await git(['update-ref', `refs/heads/${head.branch}`, start, EMPTY_SHA]);
+        return;
+      }
+      await backend.commit(head, 'Initial commit', [
+        { path: 'README.md', content: '# ai_prompts\n\nRepository for storing and managing AI prompts\n' },
+      ]);
+    },
+
+    async getHead() {
+      const name = branch || (await git(['symbolic-ref', '--short', 'HEAD'])).trim();
+      return { branch: name, commitSha: await resolveRef(`refs/heads/${name}`) };
+    },
+
+    async readFile(filePath, ref) {
+      const object = `${checkRef(ref)}:${checkPath(filePath)}`;
+      try {
+        await git(['cat-file', '-e', '--end-of-options', object]);
+      } catch {
+        return null;
+      }
+      return git(['cat-file', 'blob', '--end-of-options', object]);
+    },
+
+    async listFiles(ref) {
+      const output = await git(['ls-tree', '-r', '-z', '--end-of-options', checkRef(ref)]);
+      return output
+        .split('\0')
+        .filter(Boolean)
+        .map(line => {
+          const [info, filePath] = line.split('\t');
+          return { info: info.split(' '), path: filePath };
+        })
+        .filter(({ info }) => info[1] === 'blob')
+        .map(({ info, path: filePath }): TreeEntry => ({ path: filePath, sha: info[2] }));
+    },
+
+    // One cat-file --batch call answers every sha: "<sha> blob <size>\n<content>\n" each
+    async readBlobs(shas) {
+      const contents: Record<string, string> = {};
+      if (shas.length === 0) {
+        return contents;
+      }
+
+      const output = await runGitRaw(repoPath, ['cat-file', '--batch'], { input: `${shas.join('\n')}\n` });
+      let offset = 0;
+      while (offset < output.length) {
+        const headerEnd = output.indexOf(0x0a, offset);
+        const [sha, type, size] = output.subarray(offset, headerEnd).toString('utf8').split(' ');
+        offset = headerEnd + 1;
+
+        // Unknown shas print "<sha> missing" with no content
+        if (type === 'missing') continue;
+
+        const end = offset + Number(size);
+        if (type === 'blob') {
+          contents[sha] = output.subarray(offset, end).toString('utf8');
+        }
+        offset = end + 1;
+      }
+      return contents;
+    },
+
+    async commit(head: RepoHead, message: string, changes: FileChange[]) {
+      checkBranch(head.branch);
+      if (head.commitSha && !COMMIT_SHA.test(head.commitSha)) {
+        throw new ValidationError(`"${head.commitSha}" is not a commit sha`);
+      }
+      changes.forEach(change => checkPath(change.path));
+      const scratch = await mkdtemp(path.join(tmpdir(), 'prompt-gitter-'));
+      const indexEnv = { GIT_INDEX_FILE: path.join(scratch, 'index') };
+
+      try {
+        await git(head.commitSha ? ['read-tree', head.commitSha] : ['read-tree', '--empty'], { env: indexEnv });
+
+        // --index-info works without a work tree; mode 0 removes the path
+        const entries: string[] = [];
+        for (const { path: filePath, content } of changes) {
+          if (content === null) {
+            entries.push(`0 ${EMPTY_SHA}\t${filePath}`);
+          } else {
+            const blob = (await git(['hash-object', '-w', '--stdin'], { input: content })).trim();
+            entries.push(`100644 ${blob}\t${filePath}`);
+          }
+        }
+        await git(['update-index', '--index-info'], { input: `${entries.join('\n')}\n`, env: indexEnv });
+
+        const tree = (await git(['write-tree'], { env: indexEnv })).trim();
+        const parents = head.commitSha ? ['-p', head.commitSha] : [];
+        const commit = (
+          await git(['commit-tree', tree, ...parents], { input: message, env: authorEnv })
+        ).trim();
+
+        // Only a checkout of the branch we committed to needs its files updated
+        const isBare = (await git(['rev-parse', '--is-bare-repository'])).trim() === 'true';
+        const checkedOut = await git(['symbolic-ref', '--short', 'HEAD']).then(out => out.trim(), () => '');
+        const updateCheckout = !isBare && checkedOut === head.branch;
+
+        // Staged or unstaged edits to the paths we write would undo the commit, so refuse before the branch moves
+        if (updateCheckout) {
+          const status = await git(
+            ['status', '--porcelain', '-z', '--untracked-files=all', '--', ...changes.map(change => change.path)],
+            { env: { GIT_LITERAL_PATHSPECS: '1' } }
+          );
+          const entries = status.split('\0').filter(Boolean);
+          const dirty: string[] = [];
+          for (let i = 0; i < entries.length; i++) {
+            dirty.push(entries[i].slice(3));
+            // Renames and copies are followed by the path they came from
+            if (/^(?:[RC].|.[RC])/.test(entries[i])) i++;
+          }
+          if (dirty.length > 0) {
+            throw new DirtyWorkingTreeError(dirty);
+          }
+        }
+
+        // update-ref with an expected old value is git's compare-and-swap
+        try {
+          await git(['update-ref', `refs/heads/${head.branch}`, commit, head.commitSha || EMPTY_SHA]);
+        } catch {
+          throw new RefUpdateRejectedError(head.branch);
+        }
+
+        if (updateCheckout) {
+          await git(head.commitSha ? ['read-tree', '-m', '-u', head.commitSha, commit] : ['read-tree', '-m', '-u', commit]);
+        }
+
+        return commit;
+      } finally {
+        await rm(scratch, { recursive: true, force: true });
+      }
+    },
+
+    async listCommits(filePath): Promise<CommitInfo[]> {
+      checkPath(filePath);
+      const head = await backend.getHead();
+      if (!head.commitSha) {
+        return [];
+      }
+
+      const log = await git([
+        'log', '-n', '50', '--format=%H%x1f%P%x1f%an%x1f%aI%x1f%B%x1e', head.commitSha, '--', filePath,
+      ]);
+
+      return log
+        .split('\x1e')
+        .map(record => record.trim())
+        .filter(Boolean)
+        .map(record => {
+          const [sha, parents, name, date, body] = record.split('\x1f');
+          const [parent] = parents.split(' ');
+          return { sha, message: body.trim(), author: name, date, ...(parent ? { parent } : {}) };
+        });
+    },
+  };
+
+  return backend;
+}
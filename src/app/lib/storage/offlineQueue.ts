@@ -0,0 +1,253 @@
+import { Prompt, PromptInput } from '../../types/prompt';
+import { PromptConflictError } from './errors';
+import { PENDING_STORE, withStore } from './indexedDb';
+import { inFolder } from './promptFile';
+import { promptFilename } from './promptStorage';
+import { PromptStorage } from './types';
+
+// Writes that failed for lack of a network, kept in IndexedDB until they can be replayed.
+
+export type PendingOperation =
+  // id and filename are provisional; the replayed commit assigns the real ones
+  | { kind: 'create'; id: string; filename: string; input: PromptInput }
+  | { kind: 'update'; id: string; input: PromptInput; base: Prompt; message?: string }
+  | { kind: 'delete'; id: string; base?: Prompt };
+
+export interface PendingChange {
+  // Assigned by IndexedDB; changes replay in id order
+  id: number;
+  // User and library the change was made in; see LibrarySource
+  scope: string;
+  operation: PendingOperation;
+  queuedAt: string;
+  // Set when the replay found the prompt changed or deleted; remote is the stored version
+  conflict?: { remote: Prompt | null };
+  // Set when the replay failed for any other reason
+  error?: string;
+}
+
+// Dispatched on window whenever the queue changes
+export const PENDING_CHANGES_EVENT = 'prompt-gitter:pending-changes';
+
+function notifyPendingChanges() {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(PENDING_CHANGES_EVENT));
+  }
+}
+
+// fetch rejects with a TypeError whose wording depends on the browser when no response arrives
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  return err instanceof TypeError && /fetch|network|load failed/i.test(err.message);
+}
+
+export async function listPendingChanges(scope: string): Promise<PendingChange[]> {
+  const changes = await withStore<PendingChange[]>(PENDING_STORE, 'readonly', store => store.getAll());
+  return (changes ?? []).filter(change => change.scope === scope).sort((a, b) => a.id - b.id);
+}
+
+// Resolves to false if the change could not be stored
+async function addPendingChange(change: Omit<PendingChange, 'id'>): Promise<boolean> {
+  const key = await withStore<IDBValidKey>(PENDING_STORE, 'readwrite', store => store.add(change));
+  notifyPendingChanges();
+  return key !== undefined;
+}
+
+export async function savePendingChange(change: PendingChange): Promise<void> {
+  await withStore(PENDING_STORE, 'readwrite', store => store.put(change));
+  notifyPendingChanges();
+}
+
+export async function removePendingChange(id: number): Promise<void> {
+  await withStore(PENDING_STORE, 'readwrite', store => store.delete(id));
+  notifyPendingChanges();
+}
+
+// How a queued create looks in the list until it is replayed
+function provisionalPrompt(operation: Extract<PendingOperation, { kind: 'create' }>, queuedAt: string): Prompt {
+  const { folder, ...fields } = operation.input;
+  return {
+    ...fields,
+    id: operation.id,
+    filename: operation.filename,
+    createdAt: queuedAt,
+    updatedAt: queuedAt,
+  };
+}
+
+// How a prompt looks with a queued update applied, moved if the update names a folder
+function queuedUpdate(prompt: Prompt, input: PromptInput, queuedAt: string): Prompt {
+  const { folder, ...fields } = input;
+  return {
+    ...prompt,
+    ...fields,
+    filename: folder === undefined ? prompt.filename : inFolder(prompt.filename, folder),
+    updatedAt: queuedAt,
+  };
+}
+
+// Shows queued changes on top of the stored prompts. Changes waiting on the user are left out.
+export function applyPendingChanges(prompts: Prompt[], changes: PendingChange[]): Prompt[] {
+  let result = prompts;
+  for (const { operation, queuedAt, conflict, error } of changes) {
+    if (conflict || error) continue;
+
+    switch (operation.kind) {
+      case 'create':
+        result = [...result, provisionalPrompt(operation, queuedAt)];
+        break;
+      case 'update':
+        result = result.map(prompt =>
+          prompt.id === operation.id ? queuedUpdate(prompt, operation.input, queuedAt) : prompt
+        );
+        break;
+      case 'delete':
+        result = result.filter(prompt => prompt.id !== operation.id);
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Queues writes that fail because the network is down and answers with the
+ * provisional result, so callers carry on as if the write had been committed.
+ * Edits to a prompt that was itself created offline are folded into its queued create.
+ */
+export function withOfflineQueue(storage: PromptStorage, scope: string): PromptStorage {
+  const findQueuedCreate = async (id: string) =>
+    (await listPendingChanges(scope)).find(({ operation }) => operation.kind === 'create' && operation.id === id);
+
+  const queue = async (err: unknown, operation: PendingOperation, queuedAt: string) => {
+    if (!isNetworkError(err) || !(await addPendingChange({ scope, operation, queuedAt }))) {
+      throw err;
+    }
+  };
+
+  return {
+    ...storage,
+
+    async listPrompts() {
+      const [prompts, pending] = await Promise.all([storage.listPrompts(), listPendingChanges(scope)]);
+      return applyPendingChanges(prompts, pending);
+    },
+
+    async createPrompt(input) {
+      try {
+        return await storage.createPrompt(input);
+      } catch (err) {
+        const queuedAt = new Date().toISOString();
+        const operation = {
+          kind: 'create' as const,
+          id: Date.now().toString(),
+          filename: inFolder(promptFilename(input.title, []), input.folder ?? ''),
+          input,
+        };
+        await queue(err, operation, queuedAt);
+        return provisionalPrompt(operation, queuedAt);
+      }
+    },
+
+    async updatePrompt(id, input, options = {}) {
+      const queuedAt = new Date().toISOString();
+
+      const queuedCreate = await findQueuedCreate(id);
+      if (queuedCreate?.operation.kind === 'create') {
+        // The create is replayed in the folder the latest edit names
+        const { filename, input: queuedInput } = queuedCreate.operation;
+        const folder = input.folder ?? queuedInput.folder;
+        const operation = {
+          ...queuedCreate.operation,
+          filename: folder === undefined ? filename : inFolder(filename, folder),
+          input: { ...input, ...(folder !== undefined ? { folder } : {}) },
+        };
+        await savePendingChange({ ...queuedCreate, operation, queuedAt });
+        return provisionalPrompt(operation, queuedAt);
+      }
+
+      try {
+        return await storage.updatePrompt(id, input, options);
+      } catch (err) {
+        // Without a base the replay could not tell a stale edit from a fresh one
+        if (!options.base) {
+          throw err;
+        }
+        await queue(err, { kind: 'update', id, input, base: options.base, message: options.message }, queuedAt);
+        return queuedUpdate(options.base, input, queuedAt);
+      }
+    },
+
+    async deletePrompt(id, options = {}) {
+      const queuedCreate = await findQueuedCreate(id);
+      if (queuedCreate) {
+        await removePendingChange(queuedCreate.id);
+        return;
+      }
+
+      try {
+        await storage.deletePrompt(id, options);
+      } catch (err) {
+        await queue(err, { kind: 'delete', id, base: options.base }, new Date().toISOString());
+      }
+    },
+  };
+}
+
+function applyOperation(storage: PromptStorage, operation: PendingOperation): Promise<unknown> {
+  switch (operation.kind) {
+    case 'create':
+      return storage.createPrompt(operation.input);
+    case 'update':
+      return storage.updatePrompt(operation.id, operation.input, {
+        base: operation.base,
+        message: operation.message,
+      });
+    case 'delete':
+      return storage.deletePrompt(operation.id, { base: operation.base });
+  }
+}
+
+// Replays in progress by scope, so overlapping triggers never commit a change twice
+const replaying = new Map<string, Promise<number>>();
+
+/**
+ * Commits queued changes in order, through storage that writes straight to the
+ * repository. Stops at the first network failure; conflicts and other failures
+ * are recorded on the change and skipped until the user deals with them.
+ * Resolves to the number of changes committed.
+ */
+export function replayPendingChanges(storage: PromptStorage, scope: string): Promise<number> {
+  const running = replaying.get(scope);
+  if (running) {
+    return running;
+  }
+
+  const replay = (async () => {
+    let applied = 0;
+    try {
+      for (const change of await listPendingChanges(scope)) {
+        if (change.conflict || change.error) continue;
+
+        try {
+          await applyOperation(storage, change.operation);
+          await removePendingChange(change.id);
+          applied++;
+        } catch (err) {
+          if (isNetworkError(err)) break;
+          await savePendingChange(
+            err instanceof PromptConflictError
+              ? { ...change, conflict: { remote: err.remote } }
+              : { ...change, error: (err as Error).message }
+          );
+        }
+      }
+      return applied;
+    } finally {
+      replaying.delete(scope);
+    }
+  })();
+  replaying.set(scope, replay);
+  return replay;
+}
@@ -0,0 +1,66 @@
+import { Prompt, PromptMetadata } from '../../types/prompt';
+import { parseFrontMatter, stringifyFrontMatter } from '../frontMatter';
+
+export const METADATA_PATH = 'metadata.json';
+
+export const PROMPTS_DIR = 'prompts/';
+
+export function promptPath(filename: string): string {
+  return `${PROMPTS_DIR}${filename}`;
+}
+
+// Folders are subdirectories of prompts/, so a filename like writing/blog/intro-1718000000000.md names its folder; '' is the top level
+export function promptFolder(filename: string): string {
+  const slash = filename.lastIndexOf('/');
+  return slash === -1 ? '' : filename.slice(0, slash);
+}
+
+// The same file name in another folder
+export function inFolder(filename: string, folder: string): string {
+  const name = filename.slice(filename.lastIndexOf('/') + 1);
+  return folder ? `${folder}/${name}` : name;
+}
+
+// The metadata part of a loaded prompt, as metadata.json lists it
+export function metadataOf(prompt: Prompt): PromptMetadata {
+  const { content, ...metadata } = prompt;
+  return metadata;
+}
+
+/**
+ * A prompt file is the prompt text under YAML front matter holding its
+ * metadata. The filename is not repeated inside, since the path already says it.
+ */
+export function serializePromptFile(prompt: PromptMetadata, content: string): string {
+  return stringifyFrontMatter(
+    {
+      id: prompt.id,
+      title: prompt.title,
+      description: prompt.description,
+      tags: prompt.tags,
+      provider: prompt.provider,
+      model: prompt.model,
+      ...(prompt.format ? { format: prompt.format } : {}),
+      ...(prompt.variables ? { variables: prompt.variables } : {}),
+      createdAt: prompt.createdAt,
+      updatedAt: prompt.updatedAt,
+    },
+    content
+  );
+}
+
+export interface PromptFile {
+  // The front matter, or null for a file from before metadata moved there
+  data: Record<string, unknown> | null;
+  content: string;
+}
+
+/**
+ * Splits a prompt file into front matter and text. Front matter without a title
+ * is taken as part of the text, since older prompts may start with a --- rule.
+ * Throws YamlError when the front matter cannot be parsed.
+ */
+export function readPromptFile(text: string): PromptFile {
+  const { data, body } = parseFrontMatter(text);
+  return 'title' in data ? { data, content: body } : { data: null, content: text };
+}
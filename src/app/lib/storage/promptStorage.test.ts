@@ -0,0 +1,185 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PromptInput } from '../../types/prompt';
+import { PromptConflictError } from './errors';
+import { DirtyWorkingTreeError, createLocalGitBackend } from './localGit';
+import { metadataOf, promptPath, serializePromptFile } from './promptFile';
+import { createPromptStorage } from './promptStorage';
+import { GitBackend, PromptStorage } from './types';
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+const input = (fields: Partial<PromptInput> = {}): PromptInput => ({
+  title: 'Summarize ticket',
+  description: 'Three bullet points',
+  tags: ['support'],
+  provider: 'anthropic',
+  model: 'claude-3-5-sonnet-latest',
+  content: 'Summarize this ticket: {{ticket}}',
+  ...fields,
+});
+
+describe('prompt storage on a local git repository', () => {
+  let repo: string;
+  let backend: GitBackend;
+  let storage: PromptStorage;
+
+  const git = (...args: string[]) => execFileSync('git', ['-C', repo, ...args], { encoding: 'utf8' }).trim();
+
+  // Commits files as someone editing the repository by hand would
+  const commitFiles = async (message: string, changes: { path: string; content: string | null }[]) =>
+    backend.commit(await backend.getHead(), message, changes);
+
+  beforeEach(async () => {
+    repo = mkdtempSync(path.join(tmpdir(), 'prompt-gitter-test-'));
+    execFileSync('git', ['init', '-q', '-b', 'main', repo]);
+    backend = createLocalGitBackend(repo, author);
+    storage = createPromptStorage(backend);
+    await storage.initialize();
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('creates prompts as files with front matter and keeps the checkout in step', async () => {
+    const created = await storage.createPrompt(input({ folder: 'support' }));
+
+    expect(created.filename).toMatch(/^support\/summarize-ticket-\d+\.md$/);
+    expect(await storage.listPrompts()).toEqual([{ ...created, content: input().content }]);
+    expect(git('status', '--porcelain')).toBe('');
+  });
+
+  it('commits only the prompt files a save changes', async () => {
+    const first = await storage.createPrompt(input());
+    const second = await storage.createPrompt(input({ title: 'Draft reply' }));
+    await storage.updatePrompt(first.id, input({ content: 'Summarize briefly: {{ticket}}' }));
+    await storage.deletePrompt(second.id);
+
+    expect(git('show', '--name-only', '--format=', 'HEAD~1')).toBe(`prompts/${first.filename}`);
+    expect(git('show', '--name-only', '--format=', 'HEAD')).toBe(`prompts/${second.filename}`);
+    // The index is built when the library is read
+    expect((await storage.listPrompts()).map(prompt => prompt.content)).toEqual(['Summarize briefly: {{ticket}}']);
+  });
+
+  it('keeps saves on separate branches mergeable', async () => {
+    const first = await storage.createPrompt(input());
+    const second = await storage.createPrompt(input({ title: 'Draft reply' }));
+    git('branch', 'proposal-a');
+    git('branch', 'proposal-b');
+    const onBranch = (branch: string) => createPromptStorage(createLocalGitBackend(repo, author, branch));
+    await onBranch('proposal-a').updatePrompt(first.id, input({ content: 'Summarize briefly: {{ticket}}' }));
+    await onBranch('proposal-b').updatePrompt(second.id, input({ title: 'Draft reply', content: 'Reply to: {{ticket}}' }));
+
+    const merge = (branch: string) =>
+      git('-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`, 'merge', '--no-ff', '--no-edit', branch);
+    merge('proposal-a');
+    merge('proposal-b');
+    expect((await storage.listPrompts()).map(prompt => prompt.content)).toEqual(['Summarize briefly: {{ticket}}', 'Reply to: {{ticket}}']);
+  });
+
+  it('refuses a write that started from a stale version', async () => {
+    const base = (await storage.readPrompt((await storage.createPrompt(input())).id))!;
+    await storage.updatePrompt(base.id, input({ title: 'Summarize issue' }), { base });
+
+    const stale = storage.updatePrompt(base.id, input({ content: 'Something else' }), { base });
+
+    await expect(stale).rejects.toThrow(PromptConflictError);
+    await expect(stale).rejects.toMatchObject({ remote: { title: 'Summarize issue' } });
+    expect((await storage.readPrompt(base.id))!.content).toBe(input().content);
+  });
+
+  it('follows the history of a prompt across title changes and moves', async () => {
+    const { id } = await storage.createPrompt(input());
+    let current = (await storage.readPrompt(id))!;
+    await storage.updatePrompt(id, input({ title: 'Summarize issue', content: 'Summarize: {{ticket}}' }), { base: current });
+    current = (await storage.readPrompt(id))!;
+    const moved = await storage.updatePrompt(id, { ...input({ title: 'Summarize issue', content: 'Summarize: {{ticket}}' }), folder: 'support/tickets' }, { base: current });
+
+    expect(moved.filename).toMatch(/^support\/tickets\/summarize-issue-\d+\.md$/);
+    expect(moved.updatedAt).toBe(current.updatedAt);
+    // A move alone leaves the file as it was, so git records a rename
+    expect(git('diff', '--name-status', '-M', 'HEAD~1', 'HEAD', '--', 'prompts')).toMatch(/^R100\t/);
+
+    const history = await storage.history(moved);
+    expect(history.map(revision => revision.metadata.title)).toEqual(['Summarize issue', 'Summarize issue', 'Summarize ticket']);
+    expect(history.map(revision => revision.metadata.filename)).toEqual([
+      moved.filename,
+      current.filename,
+      expect.stringMatching(/^summarize-ticket-\d+\.md$/),
+    ]);
+    expect(await storage.readRevision(history[2])).toBe(input().content);
+  });
+
+  it('repairs leftovers, hand-made copies and orphans in one commit', async () => {
+    const created = await storage.createPrompt(input());
+    const prompt = (await storage.readPrompt(created.id))!;
+    const file = serializePromptFile(metadataOf(prompt), prompt.content!);
+    const edited = serializePromptFile({ ...metadataOf(prompt), title: 'My variant' }, 'Summarize this ticket briefly');
+    await commitFiles('Edit by hand', [
+      { path: promptPath('old-name-1718000000000.md'), content: file },
+      { path: promptPath('my-variant-1718000000001.md'), content: edited },
+      { path: promptPath('notes-1718000000002.md'), content: 'Plain text nobody listed' },
+    ]);
+
+    const problems = await storage.checkIntegrity();
+    expect(problems.map(problem => [problem.kind, problem.path]).sort()).toEqual([
+      ['duplicate-id', 'prompts/my-variant-1718000000001.md'],
+      ['leftover', 'prompts/old-name-1718000000000.md'],
+      ['orphan', 'prompts/notes-1718000000002.md'],
+    ]);
+
+    const commits = Number(git('rev-list', '--count', 'HEAD'));
+    expect(await storage.repair(problems.map(problem => problem.key))).toBe(problems.length);
+    expect(Number(git('rev-list', '--count', 'HEAD'))).toBe(commits + 1);
+
+    const prompts = await storage.listPrompts();
+    expect(prompts.map(p => p.title).sort()).toEqual(['My variant', 'Notes', 'Summarize ticket']);
+    expect(new Set(prompts.map(p => p.id)).size).toBe(3);
+    expect(prompts.find(p => p.title === 'My variant')!.content).toBe('Summarize this ticket briefly');
+    expect(await storage.checkIntegrity()).toEqual([]);
+  });
+
+  it('migrates a version 1 library to front matter', async () => {
+    await commitFiles('Old layout', [
+      {
+        path: 'metadata.json',
+        content: JSON.stringify({
+          prompts: [{
+            id: '1718000000000',
+            title: 'Summarize ticket',
+            tags: 'support, triage',
+            provider: 'openai',
+            model: 'gpt-4o',
+            filename: 'summarize-ticket-1718000000000.md',
+            createdAt: '2024-06-10T06:13:20.000Z',
+          }],
+        }),
+      },
+      { path: promptPath('summarize-ticket-1718000000000.md'), content: 'Summarize this ticket: {{ticket}}' },
+    ]);
+
+    expect(await storage.needsMigration()).toBe(true);
+    const [loaded] = await storage.listPrompts();
+    expect(loaded).toMatchObject({ tags: ['support', 'triage'], description: '', content: 'Summarize this ticket: {{ticket}}' });
+
+    expect(await storage.migrate()).toBe(1);
+    expect(await storage.needsMigration()).toBe(false);
+    expect(JSON.parse(git('show', 'HEAD:metadata.json'))).toEqual({ schemaVersion: 3, prompts: [] });
+    expect(git('show', 'HEAD:prompts/summarize-ticket-1718000000000.md')).toMatch(/^---\nid: "1718000000000"\ntitle: Summarize ticket\n/);
+    expect(await storage.listPrompts()).toEqual([loaded]);
+    expect(await storage.checkIntegrity()).toEqual([]);
+  });
+
+  it('refuses to commit over uncommitted changes in the checkout', async () => {
+    const created = await storage.createPrompt(input());
+    const head = git('rev-parse', 'HEAD');
+    writeFileSync(path.join(repo, 'prompts', created.filename), 'Edited by hand\n');
+
+    await expect(storage.updatePrompt(created.id, input({ content: 'Changed' }))).rejects.toThrow(DirtyWorkingTreeError);
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+  });
+});
@@ -0,0 +1,634 @@
+import { Metadata, Prompt, PromptFormat, PromptInput, PromptMetadata } from '../../types/prompt';
+import { BUILTIN_PROVIDERS, DEFAULT_PROVIDER, PROVIDERS_PATH, ProviderRegistry, defaultModel, extendRegistry } from '../modelRegistry';
+import { promptSlug } from '../partials';
+import { syncVariables } from '../template';
+import { PromptConflictError, RefUpdateRejectedError, UnsupportedSchemaError } from './errors';
+import { LibrarySnapshot, OrphanFile, findProblems } from './integrity';
+import {
+  METADATA_PATH,
+  PROMPTS_DIR,
+  PromptFile,
+  inFolder,
+  metadataOf,
+  promptFolder,
+  promptPath,
+  readPromptFile,
+  serializePromptFile,
+} from './promptFile';
+import { ParsedIndex, SCHEMA_VERSION, parseIndex, validatePromptMetadata } from './schema';
+import { CommitInfo, FileChange, GitBackend, InvalidEntry, PromptRevision, PromptStorage, RepoHead } from './types';
+
+// Rejected ref updates are retried from a fresh read; real conflicts are caught by the base check
+const MAX_WRITE_ATTEMPTS = 3;
+
+export const EDITABLE_FIELDS = ['title', 'description', 'tags', 'provider', 'model'] as const;
+
+export type EditableField = typeof EDITABLE_FIELDS[number];
+
+export function formatField(value: Prompt[EditableField]): string {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+// Whether two versions of a prompt agree on everything a user can edit
+export function samePrompt(a: Prompt | PromptInput | null, b: Prompt | PromptInput | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return EDITABLE_FIELDS.every(field => formatField(a[field]) === formatField(b[field]))
+    && (a.format ?? 'text') === (b.format ?? 'text')
+    && (a.content ?? '') === (b.content ?? '')
+    && JSON.stringify(a.variables ?? []) === JSON.stringify(b.variables ?? []);
+}
+
+// Plain text is the default and is left out of the metadata, so an input without a format turns a chat prompt back
+function withFormat(metadata: PromptMetadata, format: PromptFormat | undefined): PromptMetadata {
+  const result = { ...metadata };
+  if (format === 'chat') {
+    result.format = format;
+  } else {
+    delete result.format;
+  }
+  return result;
+}
+
+async function retryRejectedWrites<T>(write: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (err) {
+      if (!(err instanceof RefUpdateRejectedError) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw err;
+      }
+    }
+  }
+}
+
+export function serializeMetadata(metadata: Metadata): string {
+  return JSON.stringify(metadata, null, 2);
+}
+
+/**
+ * Builds a filename from a title: kebab case, a timestamp, and a counter when
+ * other prompts already share the same base name.
+ */
+export function promptFilename(title: string, prompts: PromptMetadata[], excludeId?: string): string {
+  const baseFilename = promptSlug(title);
+
+  // Check for existing prompts with similar filenames to handle duplicates
+  const existingPrompts = prompts.filter(p =>
+    p.id !== excludeId && inFolder(p.filename, '').startsWith(`${baseFilename}-`)
+  );
+  const suffix = existingPrompts.length > 0 ? existingPrompts.length : '';
+  return `${baseFilename}-${Date.now()}${suffix}.md`;
+}
+
+// Ids are creation timestamps, bumped past any already taken so prompts made in one commit stay distinct
+function newPromptId(prompts: PromptMetadata[]): string {
+  const taken = new Set(prompts.map(prompt => prompt.id));
+  let id = Date.now();
+  while (taken.has(id.toString())) {
+    id++;
+  }
+  return id.toString();
+}
+
+// Oldest first, the order prompts were appended to metadata.json before it was derived
+function byCreation(a: PromptMetadata, b: PromptMetadata): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+interface LoadedLibrary extends LibrarySnapshot {
+  // metadata.json as stored, null when there is none
+  storedIndex: string | null;
+  // The schemaVersion metadata.json was written with
+  storedVersion: number;
+  // Prompts whose files have no front matter yet, see migrate
+  legacy: Prompt[];
+  // metadata.json entries of invalid files without front matter, kept as they are until someone fixes them
+  keptEntries: unknown[];
+  // The built-in providers extended by the library's providers.json
+  providers: ProviderRegistry;
+}
+
+const EMPTY_LIBRARY: LoadedLibrary = {
+  storedIndex: null,
+  storedVersion: SCHEMA_VERSION,
+  prompts: [],
+  legacy: [],
+  orphans: [],
+  invalid: [],
+  keptEntries: [],
+  indexEntries: [],
+  filenames: [],
+  providers: BUILTIN_PROVIDERS,
+};
+
+// Turns a file name like summarize-ticket-1718000000000.md back into a title
+function titleFromFilename(filename: string): string {
+  const words = inFolder(filename, '').replace(/\.md$/, '').replace(/-\d{13,}$/, '').replace(/[-_]+/g, ' ').trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : filename;
+}
+
+
+export function createPromptStorage(backend: GitBackend): PromptStorage {
+  // Reads metadata.json at a commit, treating a missing file as an empty library
+  const readMetadata = async (ref: string): Promise<ParsedIndex> => {
+    const raw = ref ? await backend.readFile(METADATA_PATH, ref) : null;
+    return raw === null ? { storedVersion: SCHEMA_VERSION, prompts: [] } : parseIndex(raw);
+  };
+
+  // The prompt's entry in metadata.json at a commit, if it had a valid one
+  const findEntry = async (id: string, ref: string): Promise<PromptMetadata | null> => {
+    const entry = (await readMetadata(ref)).prompts.find(p => (p as PromptMetadata | null)?.id === id);
+    return entry ? validatePromptMetadata(entry, (entry as PromptMetadata).filename).metadata ?? null : null;
+  };
+
+  const toRevision = (commit: CommitInfo, metadata: PromptMetadata): PromptRevision => ({
+    ...commit,
+    metadata,
+  });
+
+  // The prompt's metadata as a file held it at a commit, from its front matter or, before there was any, metadata.json
+  const metadataAt = async (id: string, filename: string, ref: string): Promise<PromptMetadata | null> => {
+    const text = await backend.readFile(promptPath(filename), ref);
+    if (text === null) {
+      return null;
+    }
+    let data: unknown = null;
+    try {
+      data = readPromptFile(text).data;
+    } catch {
+      // Plain text from before front matter
+    }
+    const metadata = data ? validatePromptMetadata(data, filename).metadata : await findEntry(id, ref);
+    return metadata?.id === id ? metadata : null;
+  };
+
+  /**
+   * The name a file had before the commit that created it, when that commit
+   * renamed it: a prompt file the commit deleted held the same blob, as after a
+   * move, or the same prompt id, as after a title change.
+   */
+  const previousName = async (id: string, filename: string, commit: CommitInfo): Promise<string | null> => {
+    if (!commit.parent) {
+      return null;
+    }
+    const path = promptPath(filename);
+    const [before, after] = await Promise.all([backend.listFiles(commit.parent), backend.listFiles(commit.sha)]);
+    const added = after.find(entry => entry.path === path);
+    if (!added || before.some(entry => entry.path === path)) {
+      return null;
+    }
+
+    const remaining = new Set(after.map(entry => entry.path));
+    const deleted = before.filter(entry =>
+      entry.path.startsWith(PROMPTS_DIR) && entry.path.endsWith('.md') && !remaining.has(entry.path)
+    );
+    const moved = deleted.find(entry => entry.sha === added.sha);
+    if (moved) {
+      return moved.path.slice(PROMPTS_DIR.length);
+    }
+    const blobs = await backend.readBlobs(deleted.map(entry => entry.sha));
+    const renamed = deleted.find(entry => {
+      try {
+        return String(readPromptFile(blobs[entry.sha] ?? '').data?.id) === id;
+      } catch {
+        return false;
+      }
+    });
+    if (renamed) {
+      return renamed.path.slice(PROMPTS_DIR.length);
+    }
+    // Files without front matter were named by metadata.json
+    const entry = await findEntry(id, commit.parent);
+    return entry && deleted.some(file => file.path === promptPath(entry.filename)) ? entry.filename : null;
+  };
+
+  /**
+   * Reads every prompt file and metadata.json at a commit from one tree listing
+   * and one bulk blob read, so the request count does not grow with the number
+   * of prompts. Files that fail validation are set aside instead of failing the load.
+   */
+  const readLibrary = async (ref: string): Promise<LoadedLibrary> => {
+    if (!ref) {
+      return EMPTY_LIBRARY;
+    }
+
+    const files = (await backend.listFiles(ref))
+      .filter(entry =>
+        entry.path === METADATA_PATH
+        || entry.path === PROVIDERS_PATH
+        || (entry.path.startsWith(PROMPTS_DIR) && entry.path.endsWith('.md'))
+      );
+    const blobs = await backend.readBlobs(files.map(file => file.sha));
+    const texts = await Promise.all(files.map(file =>
+      // Blobs the bulk read skipped, such as ones too large for it, are read one by one
+      file.sha in blobs ? blobs[file.sha] : backend.readFile(file.path, ref)
+    ));
+
+    const invalid: InvalidEntry[] = [];
+    let index: ParsedIndex = { storedVersion: SCHEMA_VERSION, prompts: [] };
+    const indexText = texts[files.findIndex(file => file.path === METADATA_PATH)];
+    if (indexText) {
+      try {
+        index = parseIndex(indexText);
+      } catch (err) {
+        if (err instanceof UnsupportedSchemaError) throw err;
+        invalid.push({ path: METADATA_PATH, errors: [(err as Error).message] });
+      }
+    }
+    let providers = BUILTIN_PROVIDERS;
+    const providersText = texts[files.findIndex(file => file.path === PROVIDERS_PATH)];
+    if (providersText) {
+      try {
+        providers = extendRegistry(BUILTIN_PROVIDERS, JSON.parse(providersText));
+      } catch (err) {
+        invalid.push({ path: PROVIDERS_PATH, errors: [(err as Error).message] });
+      }
+    }
+
+    const indexed = new Map(
+      index.prompts
+        .filter(entry => typeof (entry as PromptMetadata | null)?.filename === 'string')
+        .map(entry => [(entry as PromptMetadata).filename, entry])
+    );
+
+    const prompts: Prompt[] = [];
+    const legacy: Prompt[] = [];
+    const orphans: OrphanFile[] = [];
+    const keptEntries: unknown[] = [];
+    const filenames: string[] = [];
+    for (const [i, file] of files.entries()) {
+      const text = texts[i];
+      if (text === null || !file.path.startsWith(PROMPTS_DIR)) continue;
+      const filename = file.path.slice(PROMPTS_DIR.length);
+      const entry = indexed.get(filename);
+      filenames.push(filename);
+
+      let promptFile: PromptFile;
+      try {
+        promptFile = readPromptFile(text);
+      } catch (err) {
+        // Text before front matter existed may look like broken front matter
+        if (!entry) {
+          invalid.push({ path: file.path, errors: [`front matter is not valid YAML: ${(err as Error).message}`] });
+          continue;
+        }
+        promptFile = { data: null, content: text };
+      }
+
+      if (!promptFile.data && !entry) {
+        invalid.push({ path: file.path, errors: ['has no title in its front matter and no entry in metadata.json'] });
+        orphans.push({ filename, content: text });
+        continue;
+      }
+      const { metadata, errors } = validatePromptMetadata(promptFile.data ?? entry, filename);
+      if (!metadata) {
+        invalid.push({ path: file.path, errors });
+        if (!promptFile.data) {
+          keptEntries.push(entry);
+        }
+        continue;
+      }
+
+      const prompt = { ...metadata, content: promptFile.content };
+      prompts.push(prompt);
+      if (!promptFile.data) {
+        legacy.push(prompt);
+      }
+    }
+    return {
+      storedIndex: indexText ?? null,
+      storedVersion: index.storedVersion,
+      prompts: prompts.sort(byCreation),
+      legacy,
+      orphans,
+      invalid,
+      keptEntries,
+      indexEntries: index.prompts,
+      filenames,
+      providers,
+    };
+  };
+
+  // A commit never changes, so the last one read answers reads and writes that start from it
+  let lastLoad: { ref: string; library: Promise<LoadedLibrary> } | null = null;
+
+  const loadLibrary = async (ref: string): Promise<LoadedLibrary> => {
+    if (lastLoad?.ref !== ref) {
+      const load = { ref, library: readLibrary(ref) };
+      lastLoad = load;
+      load.library.catch(() => {
+        if (lastLoad === load) lastLoad = null;
+      });
+    }
+    const library = await lastLoad.library;
+    // Writers change the list they get
+    return { ...library, prompts: [...library.prompts] };
+  };
+
+  /**
+   * Commits changes to prompt files. metadata.json keeps entries only for files
+   * without front matter that the commit leaves as they are, so it is written
+   * just when those change or the library still has an older layout.
+   */
+  const commitLibrary = (
+    head: RepoHead,
+    message: string,
+    library: Pick<LoadedLibrary, 'legacy' | 'keptEntries' | 'storedIndex'>,
+    changes: FileChange[]
+  ) => {
+    const written = new Set(changes.map(change => change.path));
+    const entries = [
+      ...library.legacy.filter(prompt => !written.has(promptPath(prompt.filename))).map(metadataOf),
+      ...library.keptEntries as PromptMetadata[],
+    ];
+    const index = serializeMetadata({ schemaVersion: SCHEMA_VERSION, prompts: entries });
+    return backend.commit(
+      head,
+      message,
+      index === library.storedIndex ? changes : [{ path: METADATA_PATH, content: index }, ...changes]
+    );
+  };
+
+  // All in one commit, so a bulk import lands or fails as a whole
+  const createPrompts = (inputs: PromptInput[], message = `Add ${inputs.length} prompts`) =>
+    retryRejectedWrites(async () => {
+      // Read the library at the commit we are going to build on
+      const head = await backend.getHead();
+      const library = await loadLibrary(head.commitSha);
+      const { prompts } = library;
+      const changes: FileChange[] = [];
+
+      const created = inputs.map(input => {
+        const { content, format, folder, ...fields } = input;
+        const newPrompt = withFormat({
+          id: newPromptId(prompts),
+          ...fields,
+          filename: inFolder(promptFilename(input.title, prompts), folder ?? ''),
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        }, format);
+        prompts.push({ ...newPrompt, content });
+        changes.push({ path: promptPath(newPrompt.filename), content: serializePromptFile(newPrompt, content) });
+        return newPrompt;
+      });
+
+      await commitLibrary(head, message, library, changes);
+      return created;
+    });
+
+  return {
+    webUrl: backend.webUrl,
+
+    exists: () => backend.exists(),
+
+    initialize: options => backend.initialize(options),
+
+    async listPrompts() {
+      const head = await backend.getHead();
+      return (await loadLibrary(head.commitSha)).prompts;
+    },
+
+    async readPrompt(id) {
+      const head = await backend.getHead();
+      const { prompts } = await loadLibrary(head.commitSha);
+      return prompts.find(prompt => prompt.id === id) ?? null;
+    },
+
+    createPrompt: async input => (await createPrompts([input], `Add prompt: ${input.title}`))[0],
+
+    createPrompts,
+
+    updatePrompt(id, input, { message, base } = {}) {
+      return retryRejectedWrites(async () => {
+        const head = await backend.getHead();
+        const library = await loadLibrary(head.commitSha);
+        const { prompts } = library;
+        const { content, format, folder, ...fields } = input;
+
+        const promptIndex = prompts.findIndex(p => p.id === id);
+        const current = promptIndex === -1 ? null : prompts[promptIndex];
+
+        if (base && !samePrompt(base, current) && !samePrompt(input, current)) {
+          throw new PromptConflictError(current);
+        }
+        if (!current) {
+          throw new Error(`Prompt ${id} no longer exists`);
+        }
+
+        const changes: FileChange[] = [];
+
+        // A new title or folder gives the prompt a new file; the old one goes in the same commit
+        const target = folder ?? promptFolder(current.filename);
+        let filename = inFolder(current.filename, target);
+        if (input.title !== current.title) {
+          filename = inFolder(promptFilename(input.title, prompts, id), target);
+        }
+        if (filename !== current.filename) {
+          changes.push({ path: promptPath(current.filename), content: null });
+        }
+
+        // A move alone keeps the file as it is, so git sees a rename
+        const moveOnly = filename !== current.filename && samePrompt(input, current);
+        const updated = withFormat({
+          ...metadataOf(current),
+          ...fields,
+          filename,
+          updatedAt: moveOnly ? current.updatedAt : new Date().toISOString(),
+        }, format);
+        prompts[promptIndex] = { ...updated, content };
+        changes.push({ path: promptPath(filename), content: serializePromptFile(updated, content) });
+
+        const defaultMessage = moveOnly
+          ? `Move prompt: ${input.title} to ${target ? promptPath(target) : PROMPTS_DIR}`
+          : `Update prompt: ${input.title}`;
+        await commitLibrary(head, message ?? defaultMessage, library, changes);
+        return updated;
+      });
+    },
+
+    deletePrompt(id, { base } = {}) {
+      return retryRejectedWrites(async () => {
+        const head = await backend.getHead();
+        const library = await loadLibrary(head.commitSha);
+
+        const prompt = library.prompts.find(p => p.id === id);
+        if (!prompt) {
+          return;
+        }
+        if (base && !samePrompt(base, prompt)) {
+          throw new PromptConflictError(prompt);
+        }
+
+        await commitLibrary(
+          head,
+          `Delete prompt: ${prompt.title}`,
+          library,
+          [{ path: promptPath(prompt.filename), content: null }]
+        );
+      });
+    },
+
+    async readProviders() {
+      const head = await backend.getHead();
+      return (await loadLibrary(head.commitSha)).providers;
+    },
+
+    async listInvalidEntries() {
+      const head = await backend.getHead();
+      return (await loadLibrary(head.commitSha)).invalid;
+    },
+
+    async checkIntegrity() {
+      const head = await backend.getHead();
+      return findProblems(await loadLibrary(head.commitSha));
+    },
+
+    repair(keys) {
+      return retryRejectedWrites(async () => {
+        const head = await backend.getHead();
+        const library = await loadLibrary(head.commitSha);
+        const selected = new Set(keys);
+        const fixes = findProblems(library).filter(problem =>
+          problem.fix && (selected.has(problem.key) || problem.kind === 'dangling')
+        );
+        if (fixes.length === 0) {
+          return 0;
+        }
+
+        let { prompts } = library;
+        const changes: FileChange[] = [];
+        const rewrite = (prompt: Prompt) =>
+          changes.push({ path: promptPath(prompt.filename), content: serializePromptFile(metadataOf(prompt), prompt.content ?? '') });
+
+        for (const problem of fixes) {
+          const filename = problem.path.slice(PROMPTS_DIR.length);
+          switch (problem.kind) {
+            case 'orphan': {
+              const { content } = library.orphans.find(orphan => orphan.filename === filename)!;
+              const now = new Date().toISOString();
+              const adopted: Prompt = {
+                id: newPromptId(prompts),
+                title: titleFromFilename(filename),
+                description: '',
+                tags: [],
+                provider: DEFAULT_PROVIDER,
+                model: defaultModel(library.providers, DEFAULT_PROVIDER),
+                filename,
+                variables: syncVariables(content, []),
+                createdAt: now,
+                updatedAt: now,
+                content,
+              };
+              prompts = [...prompts, adopted];
+              rewrite(adopted);
+              break;
+            }
+            case 'leftover':
+              // Leftovers sharing an id with the renamed prompt are listed too
+              prompts = prompts.filter(prompt => prompt.filename !== filename);
+              changes.push({ path: problem.path, content: null });
+              break;
+            case 'duplicate-id': {
+              const index = prompts.findIndex(prompt => prompt.filename === filename);
+              const rekeyed = { ...prompts[index], id: newPromptId(prompts) };
+              prompts = prompts.map((prompt, i) => i === index ? rekeyed : prompt);
+              rewrite(rekeyed);
+              break;
+            }
+            // Writing metadata.json below drops dangling entries
+          }
+        }
+
+        await commitLibrary(
+          head,
+          `Repair library\n\n${fixes.map(problem => `- ${problem.path}: ${problem.fix}`).join('\n')}`,
+          library,
+          changes
+        );
+        return fixes.length;
+      });
+    },
+
+    async needsMigration() {
+      const head = await backend.getHead();
+      const { storedVersion, legacy } = await loadLibrary(head.commitSha);
+      return storedVersion < SCHEMA_VERSION || legacy.length > 0;
+    },
+
+    // Writes metadata.json at the current schema version and gives every prompt file front matter, in one commit
+    migrate() {
+      return retryRejectedWrites(async () => {
+        const head = await backend.getHead();
+        const library = await loadLibrary(head.commitSha);
+        const { storedVersion, legacy } = library;
+        if (storedVersion === SCHEMA_VERSION && legacy.length === 0) {
+          return 0;
+        }
+
+        await commitLibrary(
+          head,
+          legacy.length > 0
+            ? `Move metadata of ${legacy.length} ${legacy.length === 1 ? 'prompt' : 'prompts'} into front matter`
+            : `Upgrade metadata.json to schema version ${SCHEMA_VERSION}`,
+          library,
+          legacy.map(prompt => ({
+            path: promptPath(prompt.filename),
+            content: serializePromptFile(metadataOf(prompt), prompt.content ?? ''),
+          }))
+        );
+        return legacy.length;
+      });
+    },
+
+    /**
+     * Lists the commits that changed a prompt, newest first, from the commits of
+     * its file. Where a title change or a move created the file, the history goes
+     * on under the name it had before, so it survives renames.
+     */
+    async history(prompt) {
+      const revisions: PromptRevision[] = [];
+      const visited = new Set<string>();
+      let filename: string | null = prompt.filename;
+      // The commit that renamed the file to the name walked last
+      let renamedIn: string | null = null;
+
+      while (filename !== null && !visited.has(filename)) {
+        visited.add(filename);
+        let commits = await backend.listCommits(promptPath(filename));
+        if (renamedIn) {
+          // Only what happened under the old name before the rename belongs to the prompt
+          const index = commits.findIndex(commit => commit.sha === renamedIn);
+          commits = index === -1 ? [] : commits.slice(index + 1);
+        }
+
+        const name: string = filename;
+        const found = await Promise.all(commits.map(async commit => {
+          const metadata = await metadataAt(prompt.id, name, commit.sha);
+          return metadata ? toRevision(commit, metadata) : null;
+        }));
+        revisions.push(...found.filter((revision): revision is PromptRevision => revision !== null));
+
+        const first = commits[commits.length - 1];
+        filename = first ? await previousName(prompt.id, name, first) : null;
+        renamedIn = first?.sha ?? null;
+      }
+      return revisions;
+    },
+
+    // Content of the prompt as of a revision, read from the filename recorded at that commit
+    async readRevision(revision) {
+      const { filename } = revision.metadata;
+      const text = await backend.readFile(promptPath(filename), revision.sha);
+      if (text === null) {
+        return null;
+      }
+      try {
+        return readPromptFile(text).content;
+      } catch {
+        return text;
+      }
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import { Prompt, PromptInput } from '../../types/prompt';
+import { diffLines } from '../diff';
+import { promptSlug } from '../partials';
+import { ProposalNeedsUpdateError } from './errors';
+import { GitHubError, GitHubRepo, createGitHubBackend, githubJson, repoUrl } from './github';
+import { withBaseDir } from './library';
+import { EDITABLE_FIELDS, createPromptStorage, formatField } from './promptStorage';
+import { CheckState, PromptReview, PullRequestSummary, ResponseCache, ReviewState } from './types';
+
+// Proposal branches are named under this prefix, which is how their pull requests are told apart
+export const PROPOSAL_BRANCH_PREFIX = 'prompt-gitter/';
+
+// Dispatched on window after a pull request is opened or merged
+export const PULL_REQUESTS_EVENT = 'prompt-gitter:pull-requests';
+
+// Proposals for the same title, even ones opened in the same moment, each get their own branch
+function proposalBranch(title: string): string {
+  const suffix = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return `${PROPOSAL_BRANCH_PREFIX}${promptSlug(title)}-${suffix}`;
+}
+
+function notifyPullRequests() {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(PULL_REQUESTS_EVENT));
+  }
+}
+
+interface PullRequestResponse {
+  number: number;
+  title: string;
+  html_url: string;
+  created_at: string;
+  user: { login: string } | null;
+  head: { ref: string; sha: string };
+}
+
+interface ReviewResponse {
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  user: { login: string } | null;
+}
+
+interface CheckRunsResponse {
+  check_runs: { status: string; conclusion: string | null }[];
+}
+
+interface CombinedStatusResponse {
+  state: 'success' | 'pending' | 'failure' | 'error';
+  total_count: number;
+}
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure'];
+
+// Each reviewer's latest verdict counts; one request for changes outweighs any approvals
+function reviewState(reviews: ReviewResponse[]): ReviewState {
+  const latest = new Map<string, ReviewResponse['state']>();
+  for (const review of reviews) {
+    if (review.state !== 'COMMENTED' && review.state !== 'PENDING') {
+      latest.set(review.user?.login ?? '', review.state);
+    }
+  }
+  const states = Array.from(latest.values());
+  if (states.includes('CHANGES_REQUESTED')) return 'changes_requested';
+  return states.includes('APPROVED') ? 'approved' : 'pending';
+}
+
+// Merges commit statuses and check runs, which GitHub reports separately
+function checkState(status: CombinedStatusResponse, checks: CheckRunsResponse): CheckState {
+  const states: CheckState[] = checks.check_runs.map(run =>
+    run.status !== 'completed'
+      ? 'pending'
+      : FAILED_CONCLUSIONS.includes(run.conclusion ?? '') ? 'failure' : 'success'
+  );
+  if (status.total_count > 0) {
+    states.push(status.state === 'error' ? 'failure' : status.state);
+  }
+
+  if (states.length === 0) return 'none';
+  if (states.includes('failure')) return 'failure';
+  return states.includes('pending') ? 'pending' : 'success';
+}
+
+// Markdown for the pull request: the fields that changed and a diff of the prompt text
+export function describeProposal(base: Prompt, input: PromptInput): string {
+  const lines = [`Proposed change to **${base.title}**, made with Prompt Gitter.`, ''];
+
+  const changedFields = EDITABLE_FIELDS.filter(field => formatField(base[field]) !== formatField(input[field]));
+  if (changedFields.length > 0) {
+    lines.push('| Field | Before | After |', '| --- | --- | --- |');
+    for (const field of changedFields) {
+      lines.push(`| ${field} | ${formatField(base[field])} | ${formatField(input[field])} |`);
+    }
+    lines.push('');
+  }
+
+  if ((base.format ?? 'text') !== (input.format ?? 'text')) {
+    lines.push(`The prompt format changed from ${base.format ?? 'text'} to ${input.format ?? 'text'}.`, '');
+  }
+
+  if (JSON.stringify(base.variables ?? []) !== JSON.stringify(input.variables ?? [])) {
+    lines.push('The template variables changed.', '');
+  }
+
+  if ((base.content ?? '') !== input.content) {
+    const diff = diffLines(base.content ?? '', input.content)
+      .map(part => `${part.type === 'added' ? '+' : part.type === 'removed' ? '-' : ' '}${part.value}`);
+    lines.push('```diff', ...diff, '```');
+  } else {
+    lines.push('The prompt text is unchanged.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Pull request review on GitHub. A proposal branches off the library's branch,
+ * commits through the usual prompt storage, so conflicts are detected the same
+ * way as direct saves, and opens a pull request back into it.
+ */
+export function createGitHubReview(repo: GitHubRepo, baseDir: string, cache?: ResponseCache): PromptReview {
+  const request = <T>(path: string, init?: RequestInit, cached?: ResponseCache) =>
+    githubJson<T>(repoUrl(repo, path), repo.accessToken, init, cached);
+
+  const targetBranch = async () =>
+    repo.branch || (await request<{ default_branch: string }>('', undefined, cache)).default_branch;
+
+  const summarize = async (pull: PullRequestResponse): Promise<PullRequestSummary> => {
+    const [reviews, status, checks] = await Promise.all([
+      request<ReviewResponse[]>(`pulls/${pull.number}/reviews?per_page=100`, undefined, cache),
+      request<CombinedStatusResponse>(`commits/${pull.head.sha}/status`, undefined, cache),
+      request<CheckRunsResponse>(`commits/${pull.head.sha}/check-runs?per_page=100`, undefined, cache),
+    ]);
+
+    return {
+      number: pull.number,
+      title: pull.title,
+      url: pull.html_url,
+      branch: pull.head.ref,
+      author: pull.user?.login ?? 'unknown',
+      createdAt: pull.created_at,
+      reviewState: reviewState(reviews),
+      checkState: checkState(status, checks),
+    };
+  };
+
+  return {
+    async proposeUpdate(id, input, base) {
+      const target = await targetBranch();
+      const start = await request<{ object: { sha: string } }>(`git/ref/heads/${target}`);
+      const branch = proposalBranch(input.title);
+      await request('git/refs', {
+        method: 'POST',
+        body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: start.object.sha }),
+      });
+
+      try {
+        const proposal = createPromptStorage(withBaseDir(createGitHubBackend({ ...repo, branch }), baseDir));
+        await proposal.updatePrompt(id, input, { base });
+
+        const pull = await request<PullRequestResponse>('pulls', {
+          method: 'POST',
+          body: JSON.stringify({
+            title: `Update prompt: ${input.title}`,
+            head: branch,
+            base: target,
+            body: describeProposal(base, input),
+          }),
+        });
+        notifyPullRequests();
+        return await summarize(pull);
+      } catch (err) {
+        // Do not leave a branch behind for a proposal that was never opened
+        await request(`git/refs/heads/${branch}`, { method: 'DELETE' }).catch(() => undefined);
+        throw err;
+      }
+    },
+
+    async listPullRequests() {
+      const pulls = await request<PullRequestResponse[]>(
+        `pulls?state=open&base=${encodeURIComponent(await targetBranch())}&per_page=100`,
+        undefined,
+        cache
+      );
+      return Promise.all(
+        pulls.filter(pull => pull.head.ref.startsWith(PROPOSAL_BRANCH_PREFIX)).map(summarize)
+      );
+    },
+
+    async mergePullRequest(pullRequest) {
+      try {
+        await request(`pulls/${pullRequest.number}/merge`, {
+          method: 'PUT',
+          body: JSON.stringify({ merge_method: 'merge' }),
+        });
+      } catch (err) {
+        // A proposal only changes its prompt's file, so this means the prompt itself changed since:
+        // GitHub answers 405 when a pull request is not mergeable and 409 when its head moved
+        if (err instanceof GitHubError && (err.status === 405 || err.status === 409)) {
+          throw new ProposalNeedsUpdateError(pullRequest.number);
+        }
+        throw err;
+      }
+      notifyPullRequests();
+      // The branch has served its purpose; a failure here leaves it for the user to clean up
+      await request(`git/refs/heads/${pullRequest.branch}`, { method: 'DELETE' }).catch(() => undefined);
+    },
+  };
+}
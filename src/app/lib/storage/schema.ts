@@ -0,0 +1,150 @@
+import { PromptFormat, PromptMetadata } from '../../types/prompt';
+import { PROMPT_FORMATS, ValidationError, parseVariables } from '../validation';
+import { UnsupportedSchemaError } from './errors';
+
+/**
+ * The library layout this version reads and writes, recorded as schemaVersion
+ * in metadata.json:
+ *
+ * 1. metadata.json holds every prompt's metadata and prompt files are plain
+ *    text. These files have no schemaVersion.
+ * 2. Prompt files carry their metadata in front matter, and metadata.json is an
+ *    index rebuilt from it on every write.
+ * 3. The index is built from the front matter whenever the library is read.
+ *    metadata.json only lists files that have no front matter yet, so saves
+ *    change nothing but the prompt files they touch.
+ */
+export const SCHEMA_VERSION = 3;
+
+// metadata.json upgraded to SCHEMA_VERSION, its entries not yet validated
+export interface ParsedIndex {
+  // The version the file was written with
+  storedVersion: number;
+  prompts: unknown[];
+}
+
+type Entry = Record<string, unknown>;
+
+const isEntry = (value: unknown): value is Entry =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration upgrades the entries of an index from the version it is keyed by to the next
+const MIGRATIONS: Record<number, (prompts: unknown[]) => unknown[]> = {
+  // Hand-edited version 1 files often list tags as one string or leave out fields that have defaults
+  1: prompts => prompts.map(entry => isEntry(entry) ? {
+    ...entry,
+    description: entry.description ?? '',
+    tags: typeof entry.tags === 'string'
+      ? entry.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+      : entry.tags ?? [],
+    updatedAt: entry.updatedAt ?? entry.createdAt,
+  } : entry),
+  // Front matter takes precedence over the entries, which the next save drops
+  2: prompts => prompts,
+};
+
+/**
+ * Parses metadata.json and runs the migrations from its version up to
+ * SCHEMA_VERSION. Throws UnsupportedSchemaError for files from a newer version.
+ */
+export function parseIndex(text: string): ParsedIndex {
+  const data: unknown = JSON.parse(text);
+  if (!isEntry(data) || !Array.isArray(data.prompts)) {
+    throw new ValidationError('metadata.json must be an object with a "prompts" list');
+  }
+
+  const storedVersion = data.schemaVersion ?? 1;
+  if (typeof storedVersion !== 'number' || !Number.isInteger(storedVersion) || storedVersion < 1) {
+    throw new ValidationError(`metadata.json has an invalid schemaVersion ${JSON.stringify(storedVersion)}`);
+  }
+  if (storedVersion > SCHEMA_VERSION) {
+    throw new UnsupportedSchemaError(storedVersion);
+  }
+
+  let prompts: unknown[] = data.prompts;
+  for (let version = storedVersion; version < SCHEMA_VERSION; version++) {
+    prompts = MIGRATIONS[version](prompts);
+  }
+  return { storedVersion, prompts };
+}
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Checks one prompt's metadata, from front matter or a metadata.json entry.
+ * Collects every problem rather than stopping at the first, so a hand-edited
+ * file can be fixed in one go. Fields with defaults may be left out.
+ */
+export function validatePromptMetadata(raw: unknown, filename: string): { metadata?: PromptMetadata; errors: string[] } {
+  if (!isEntry(raw)) {
+    return { errors: ['metadata must be a mapping of fields'] };
+  }
+  const errors: string[] = [];
+
+  // YAML reads an unquoted id as a number
+  const id = typeof raw.id === 'number' ? String(raw.id) : raw.id;
+  if (typeof id !== 'string' || id === '') {
+    errors.push('id is required');
+  }
+  if (typeof raw.title !== 'string' || raw.title.trim() === '') {
+    errors.push('title is required');
+  }
+  const description = raw.description ?? '';
+  if (typeof description !== 'string') {
+    errors.push('description must be a string');
+  }
+  const tags = raw.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+    errors.push('tags must be a list of strings');
+  }
+  // Any id is kept, since the provider may come from a providers.json this check does not see
+  if (typeof raw.provider !== 'string' || raw.provider === '') {
+    errors.push('provider is required');
+  }
+  if (typeof raw.model !== 'string' || raw.model === '') {
+    errors.push('model is required');
+  }
+  const format = raw.format ?? 'text';
+  if (!PROMPT_FORMATS.includes(format as PromptFormat)) {
+    errors.push(`format must be one of ${PROMPT_FORMATS.join(', ')}`);
+  }
+
+  let variables;
+  if (raw.variables !== undefined) {
+    try {
+      variables = parseVariables(raw.variables);
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      errors.push(err.message);
+    }
+  }
+
+  if (!isDate(raw.createdAt)) {
+    errors.push('createdAt must be a date');
+  }
+  const updatedAt = raw.updatedAt ?? raw.createdAt;
+  if (!isDate(updatedAt)) {
+    errors.push('updatedAt must be a date');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    metadata: {
+      id: id as string,
+      title: raw.title as string,
+      description: description as string,
+      tags: tags as string[],
+      provider: raw.provider as string,
+      model: raw.model as string,
+      ...(format === 'chat' ? { format } : {}),
+      filename,
+      ...(variables ? { variables } : {}),
+      createdAt: raw.createdAt as string,
+      updatedAt: updatedAt as string,
+    },
+    errors,
+  };
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '../auth';
+import { ValidationError } from '../validation';
+import { PromptConflictError, RefUpdateRejectedError } from './errors';
+import { GitHubError, createGitHubBackend, githubHeaders } from './github';
+import { LibrarySettings, defaultLibrary, normalizeBaseDir, withBaseDir } from './library';
+import { createLocalGitBackend } from './localGit';
+import { createPromptStorage } from './promptStorage';
+import { GitBackend, PromptStorage } from './types';
+
+// Server-only: storage for route handlers, which may be called by scripts as well as the browser.
+
+export interface ApiIdentity {
+  username: string;
+  accessToken: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Resolves the caller from a GitHub personal access token sent as
+ * `Authorization: Bearer <token>`, falling back to the NextAuth session.
+ */
+export async function getApiIdentity(request: Request): Promise<ApiIdentity | null> {
+  const header = request.headers.get('authorization');
+  if (header?.startsWith('Bearer ')) {
+    const accessToken = header.slice('Bearer '.length).trim();
+    const response = await fetch('https://api.github.com/user', { headers: githubHeaders(accessToken) });
+    if (!response.ok) {
+      return null;
+    }
+    const user = await response.json();
+    return { username: user.login, accessToken, name: user.name, email: user.email };
+  }
+
+  const session = await getServerSession(authOptions);
+  if (!session?.username || !session.accessToken) {
+    return null;
+  }
+  return {
+    username: session.username,
+    accessToken: session.accessToken,
+    name: session.user?.name,
+    email: session.user?.email,
+  };
+}
+
+/**
+ * The library a request works on. The dashboard's settings live in the browser,
+ * so API callers pick a library other than the default with the owner, repo,
+ * branch and dir query parameters.
+ */
+export function requestLibrary(request: Request, identity: ApiIdentity): LibrarySettings {
+  const params = new URL(request.url).searchParams;
+  const defaults = defaultLibrary(identity.username);
+  return {
+    owner: params.get('owner') || defaults.owner,
+    repo: params.get('repo') || defaults.repo,
+    branch: params.get('branch') || defaults.branch,
+    baseDir: normalizeBaseDir(params.get('dir') ?? defaults.baseDir),
+  };
+}
+
+// Thrown for a signed-in user who is not allowed to use the server's repository
+export class LocalRepoAccessError extends Error {
+  constructor(public username: string) {
+    super(`${username} is not allowed to use the local repository`);
+    this.name = 'LocalRepoAccessError';
+  }
+}
+
+// GitHub logins listed in LOCAL_REPO_USERS, compared case-insensitively like GitHub does
+export function canUseLocalRepo(identity: ApiIdentity): boolean {
+  const users = (process.env.LOCAL_REPO_USERS ?? '').split(',').map(user => user.trim().toLowerCase()).filter(Boolean);
+  return users.includes(identity.username.toLowerCase());
+}
+
+export function createLocalBackend(identity: ApiIdentity, branch?: string): GitBackend {
+  const repoPath = process.env.LOCAL_REPO_PATH;
+  if (!repoPath) {
+    throw new Error('LOCAL_REPO_PATH is not configured');
+  }
+  if (!canUseLocalRepo(identity)) {
+    throw new LocalRepoAccessError(identity.username);
+  }
+
+  return createLocalGitBackend(repoPath, {
+    name: identity.name || identity.username,
+    email: identity.email || 'prompt-gitter@localhost',
+  }, branch || undefined);
+}
+
+// Same backend choice as usePromptStorage, so scripts and the dashboard see one library
+export function createServerStorage(
+  identity: ApiIdentity,
+  library: LibrarySettings = defaultLibrary(identity.username)
+): PromptStorage {
+  return createPromptStorage(withBaseDir(
+    process.env.NEXT_PUBLIC_PROMPT_STORAGE === 'local'
+      ? createLocalBackend(identity, library.branch)
+      : createGitHubBackend({
+          owner: library.owner,
+          repo: library.repo,
+          branch: library.branch || undefined,
+          accessToken: identity.accessToken,
+        }),
+    library.baseDir
+  ));
+}
+
+// Maps storage and validation failures onto HTTP responses for the API routes
+export function storageErrorResponse(error: unknown): NextResponse {
+  if (error instanceof ValidationError) {
+    return NextResponse.json({ message: error.message }, { status: 400 });
+  }
+  if (error instanceof LocalRepoAccessError) {
+    return NextResponse.json({ message: error.message }, { status: 403 });
+  }
+  if (error instanceof PromptConflictError) {
+    return NextResponse.json({ message: error.message, remote: error.remote }, { status: 409 });
+  }
+  if (error instanceof RefUpdateRejectedError) {
+    return NextResponse.json({ message: error.message }, { status: 409 });
+  }
+  if (error instanceof GitHubError && error.status < 500) {
+    return NextResponse.json({ message: error.message }, { status: error.status });
+  }
+
+  console.error('Prompt API request failed:', error);
+  return NextResponse.json({ message: (error as Error).message || 'Internal error' }, { status: 500 });
+}
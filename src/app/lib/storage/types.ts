@@ -0,0 +1,156 @@
+import { Prompt, PromptInput, PromptMetadata } from '../../types/prompt';
+import { ProviderRegistry } from '../modelRegistry';
+
+export interface RepoHead {
+  branch: string;
+  // Empty for a repository without commits
+  commitSha: string;
+}
+
+// A file to write in a commit; null content deletes the path
+export interface FileChange {
+  path: string;
+  content: string | null;
+}
+
+// A file in a commit's tree; sha identifies its blob, so equal shas mean equal content
+export interface TreeEntry {
+  path: string;
+  sha: string;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  url?: string;
+  // The first parent; left out for a repository's first commit
+  parent?: string;
+}
+
+export interface PromptRevision extends CommitInfo {
+  metadata: PromptMetadata;
+}
+
+export interface WriteOptions {
+  message?: string;
+  // The version the edit started from; the write fails with a PromptConflictError if the stored prompt moved on
+  base?: Prompt;
+}
+
+export interface InitializeOptions {
+  // Create the repository as private; backends without visibility ignore it
+  private?: boolean;
+}
+
+// A file in the library that failed validation, with every problem found in it
+export interface InvalidEntry {
+  path: string;
+  errors: string[];
+}
+
+/**
+ * Something wrong with how a library's files fit together. key identifies the
+ * problem across checks of the same library, to pick which ones to repair.
+ */
+export interface LibraryProblem {
+  key: string;
+  kind: 'orphan' | 'dangling' | 'duplicate-id' | 'leftover' | 'invalid';
+  path: string;
+  message: string;
+  // What repair does about it; problems without one need fixing by hand
+  fix?: string;
+}
+
+/**
+ * The git operations a prompt library needs. Every write goes through commit,
+ * which must refuse to move the branch unless it still points at head.
+ */
+export interface GitBackend {
+  webUrl?: string;
+  exists(): Promise<boolean>;
+  initialize(options?: InitializeOptions): Promise<void>;
+  getHead(): Promise<RepoHead>;
+  readFile(path: string, ref: string): Promise<string | null>;
+  // Every file in the commit's tree, in one request where the backend allows it
+  listFiles(ref: string): Promise<TreeEntry[]>;
+  // Blob contents keyed by sha; shas that cannot be read as text are left out
+  readBlobs(shas: string[]): Promise<Record<string, string>>;
+  commit(head: RepoHead, message: string, changes: FileChange[]): Promise<string>;
+  listCommits(path: string): Promise<CommitInfo[]>;
+}
+
+export interface PromptStorage {
+  webUrl?: string;
+  exists(): Promise<boolean>;
+  initialize(options?: InitializeOptions): Promise<void>;
+  listPrompts(): Promise<Prompt[]>;
+  readPrompt(id: string): Promise<Prompt | null>;
+  createPrompt(input: PromptInput): Promise<PromptMetadata>;
+  // Adds every prompt in a single commit
+  createPrompts(inputs: PromptInput[], message?: string): Promise<PromptMetadata[]>;
+  updatePrompt(id: string, input: PromptInput, options?: WriteOptions): Promise<PromptMetadata>;
+  deletePrompt(id: string, options?: Pick<WriteOptions, 'base'>): Promise<void>;
+  // The providers and models prompts in this library can use
+  readProviders(): Promise<ProviderRegistry>;
+  // Files that could not be read: prompts left out of listPrompts, or a broken providers.json
+  listInvalidEntries(): Promise<InvalidEntry[]>;
+  checkIntegrity(): Promise<LibraryProblem[]>;
+  /**
+   * Fixes the problems with the given keys, as found again at the current head,
+   * in one commit. Dangling metadata.json entries are dropped by every write,
+   * so they are always fixed. Resolves to the number of problems fixed.
+   */
+  repair(keys: string[]): Promise<number>;
+  // Whether the library was written with an older schema version; migrate upgrades it
+  needsMigration(): Promise<boolean>;
+  // Resolves to the number of prompt files given front matter
+  migrate(): Promise<number>;
+  history(prompt: PromptMetadata): Promise<PromptRevision[]>;
+  readRevision(revision: PromptRevision): Promise<string | null>;
+}
+
+// Blob contents by sha. Blobs never change, so entries never go stale.
+export interface BlobCache {
+  get(sha: string): Promise<string | undefined>;
+  set(sha: string, content: string): Promise<void>;
+}
+
+export interface CachedResponse {
+  etag: string;
+  body: unknown;
+}
+
+// GET responses by URL, revalidated with If-None-Match
+export interface ResponseCache {
+  get(url: string): Promise<CachedResponse | undefined>;
+  set(url: string, response: CachedResponse): Promise<void>;
+}
+
+export type ReviewState = 'approved' | 'changes_requested' | 'pending';
+
+// Combined result of status checks and check runs; none when the repository runs no checks
+export type CheckState = 'success' | 'failure' | 'pending' | 'none';
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  url: string;
+  // The branch holding the proposed change
+  branch: string;
+  author: string;
+  createdAt: string;
+  reviewState: ReviewState;
+  checkState: CheckState;
+}
+
+/**
+ * Changes that go through review: each one is committed to its own branch and
+ * proposed as a pull request against the library's branch.
+ */
+export interface PromptReview {
+  proposeUpdate(id: string, input: PromptInput, base: Prompt): Promise<PullRequestSummary>;
+  listPullRequests(): Promise<PullRequestSummary[]>;
+  mergePullRequest(pullRequest: PullRequestSummary): Promise<void>;
+}
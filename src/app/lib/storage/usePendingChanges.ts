@@ -0,0 +1,85 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  listPendingChanges,
+  PENDING_CHANGES_EVENT,
+  PendingChange,
+  PendingOperation,
+  removePendingChange,
+  replayPendingChanges,
+  savePendingChange,
+} from './offlineQueue';
+import { LibrarySource, useLibrarySources } from './usePromptStorage';
+
+/**
+ * Queued changes across every library in the workspace. Queues are replayed on
+ * mount and whenever the browser comes back online; onSynced runs after anything was committed.
+ */
+export function usePendingChanges(onSynced?: () => void) {
+  const { data: session } = useSession();
+  const signedIn = Boolean(session?.username);
+  const sources = useLibrarySources();
+  const [pending, setPending] = useState<PendingChange[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = useCallback(async () => {
+    if (!signedIn) return;
+    setIsSyncing(true);
+    try {
+      const applied = await Promise.all(sources.map(source => replayPendingChanges(source.direct, source.scope)));
+      if (applied.some(count => count > 0)) {
+        onSyncedRef.current?.();
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [sources, signedIn]);
+
+  useEffect(() => {
+    if (!signedIn) return;
+
+    const refresh = async () => {
+      const lists = await Promise.all(sources.map(source => listPendingChanges(source.scope)));
+      setPending(lists.flat());
+    };
+    const goOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const goOffline = () => setIsOnline(false);
+
+    window.addEventListener(PENDING_CHANGES_EVENT, refresh);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+
+    setIsOnline(navigator.onLine);
+    refresh();
+    if (navigator.onLine) {
+      sync();
+    }
+
+    return () => {
+      window.removeEventListener(PENDING_CHANGES_EVENT, refresh);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [sources, signedIn, sync]);
+
+  const sourceOf = (change: PendingChange): LibrarySource | undefined =>
+    sources.find(source => source.scope === change.scope);
+
+  // Clears the change's conflict or error and replays it, optionally as a different operation
+  const retry = async (change: PendingChange, operation: PendingOperation = change.operation) => {
+    await savePendingChange({ id: change.id, scope: change.scope, queuedAt: change.queuedAt, operation });
+    await sync();
+  };
+
+  const discard = (change: PendingChange) => removePendingChange(change.id);
+
+  return { pending, isOnline, isSyncing, sync, retry, discard, sourceOf };
+}
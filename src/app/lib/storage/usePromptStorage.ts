@@ -0,0 +1,92 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { useSession } from 'next-auth/react';
+import { indexedDbBlobCache, indexedDbResponseCache, withBlobCache } from './cache';
+import { createGitHubBackend } from './github';
+import { createHttpBackend } from './http';
+import { LibrarySettings, libraryKey, withBaseDir } from './library';
+import { withOfflineQueue } from './offlineQueue';
+import { createPromptStorage } from './promptStorage';
+import { createGitHubReview } from './review';
+import { PromptReview, PromptStorage } from './types';
+import { useWorkspace } from './useWorkspace';
+
+export interface LibrarySource {
+  key: string;
+  library: LibrarySettings;
+  // For the UI: writes made while offline are queued and show up as if committed
+  storage: PromptStorage;
+  // Writes straight to the repository, for replaying queued changes
+  direct: PromptStorage;
+  // The user and library queued changes belong to, so they are never replayed anywhere else
+  scope: string;
+  // Pull request review, where the library's host supports it
+  review?: PromptReview;
+}
+
+const isLocalStorage = process.env.NEXT_PUBLIC_PROMPT_STORAGE === 'local';
+
+/**
+ * NEXT_PUBLIC_PROMPT_STORAGE=local keeps libraries in LOCAL_REPO_PATH on the server instead of GitHub.
+ * Either way, blobs and GitHub responses are cached in IndexedDB across page loads.
+ */
+function createDirectStorage(library: LibrarySettings, accessToken: string): PromptStorage {
+  return createPromptStorage(withBlobCache(
+    withBaseDir(
+      isLocalStorage
+        ? createHttpBackend(library.branch || undefined)
+        : createGitHubBackend({
+            owner: library.owner,
+            repo: library.repo,
+            branch: library.branch || undefined,
+            accessToken,
+          }, indexedDbResponseCache),
+      library.baseDir
+    ),
+    indexedDbBlobCache
+  ));
+}
+
+// Storage for every library in the user's workspace, in workspace order
+export function useLibrarySources(): LibrarySource[] {
+  const { data: session } = useSession();
+  const { libraries } = useWorkspace();
+  const username = session?.username ?? '';
+  const accessToken = session?.accessToken ?? '';
+
+  // Sources outlive workspace saves, so choosing another active library leaves every view and its state alone
+  const cache = useRef({ identity: '', byKey: new Map<string, LibrarySource>() });
+  const keys = libraries.map(libraryKey).join('\n');
+
+  return useMemo(() => {
+    const identity = `${username}\n${accessToken}`;
+    if (cache.current.identity !== identity) {
+      cache.current = { identity, byKey: new Map() };
+    }
+    const { byKey } = cache.current;
+    const sources = libraries.map(library => {
+      const key = libraryKey(library);
+      const cached = byKey.get(key);
+      if (cached) return cached;
+
+      const scope = `${username}:${key}`;
+      const direct = createDirectStorage(library, accessToken);
+      const review = isLocalStorage ? undefined : createGitHubReview({
+        owner: library.owner,
+        repo: library.repo,
+        branch: library.branch || undefined,
+        accessToken,
+      }, library.baseDir, indexedDbResponseCache);
+      const source = { key, library, direct, scope, review, storage: withOfflineQueue(direct, scope) };
+      byKey.set(key, source);
+      return source;
+    });
+    // Forgets closed libraries, so opening one again starts afresh
+    for (const key of byKey.keys()) {
+      if (!sources.some(source => source.key === key)) byKey.delete(key);
+    }
+    return sources;
+    // The key covers every setting of a library, so only adding, removing or reordering libraries rebuilds the list
+  }, [keys, username, accessToken]);
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BUILTIN_PROVIDERS, ProviderRegistry } from '../modelRegistry';
+import { LibrarySource } from './usePromptStorage';
+
+/**
+ * The provider registry of a library, extended by its providers.json. Answers
+ * with the built-in providers until the library has loaded, or if it cannot be read.
+ */
+export function useProviderRegistry(source: LibrarySource | undefined): ProviderRegistry {
+  const [registry, setRegistry] = useState<ProviderRegistry>(BUILTIN_PROVIDERS);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRegistry(BUILTIN_PROVIDERS);
+    source?.storage.readProviders()
+      .then(providers => {
+        if (!cancelled) setRegistry(providers);
+      })
+      .catch(err => console.error('Error reading providers:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  return registry;
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { LibrarySettings, defaultLibrary, libraryKey, normalizeBaseDir } from './library';
+
+// The libraries a user has open, kept per user in this browser
+
+// Selects the combined view of every library instead of a single one
+export const ALL_LIBRARIES = '*';
+
+export interface Workspace {
+  libraries: LibrarySettings[];
+  // libraryKey of the library shown, or ALL_LIBRARIES
+  active: string;
+}
+
+const storageKey = (username: string) => `prompt-gitter:workspace:${username}`;
+
+// Where a single library was saved before workspaces held several
+const legacyStorageKey = (username: string) => `prompt-gitter:library:${username}`;
+
+// Dispatched on window after the workspace changes, so every hook picks it up
+const WORKSPACE_EVENT = 'prompt-gitter:workspace';
+
+function cleanLibrary(saved: Partial<LibrarySettings>, defaults: LibrarySettings): LibrarySettings {
+  return {
+    owner: saved.owner?.trim() || defaults.owner,
+    repo: saved.repo?.trim() || defaults.repo,
+    branch: saved.branch?.trim() ?? defaults.branch,
+    baseDir: normalizeBaseDir(saved.baseDir ?? defaults.baseDir),
+  };
+}
+
+export function loadWorkspace(username: string): Workspace {
+  const defaults = defaultLibrary(username);
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(username)) ?? 'null');
+    const legacy = JSON.parse(localStorage.getItem(legacyStorageKey(username)) ?? 'null');
+    const libraries: LibrarySettings[] = (saved?.libraries ?? [legacy ?? defaults])
+      .map((library: Partial<LibrarySettings>) => cleanLibrary(library, defaults));
+
+    if (libraries.length === 0) {
+      libraries.push(defaults);
+    }
+    const keys = libraries.map(libraryKey);
+    const active = saved?.active === ALL_LIBRARIES || keys.includes(saved?.active) ? saved.active : keys[0];
+    return { libraries, active };
+  } catch {
+    return { libraries: [defaults], active: libraryKey(defaults) };
+  }
+}
+
+// An active library that is no longer in the list falls back to the first one
+export function saveWorkspace(username: string, workspace: Workspace): void {
+  const defaults = defaultLibrary(username);
+  const libraries = workspace.libraries.map(library => cleanLibrary(library, defaults));
+  const keys = libraries.map(libraryKey);
+  const active = workspace.active === ALL_LIBRARIES || keys.includes(workspace.active) ? workspace.active : keys[0];
+  localStorage.setItem(storageKey(username), JSON.stringify({ libraries, active }));
+  localStorage.removeItem(legacyStorageKey(username));
+  window.dispatchEvent(new Event(WORKSPACE_EVENT));
+}
+
+export function useWorkspace() {
+  const { data: session } = useSession();
+  const username = session?.username ?? '';
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const reload = () => setVersion(v => v + 1);
+    window.addEventListener(WORKSPACE_EVENT, reload);
+    return () => window.removeEventListener(WORKSPACE_EVENT, reload);
+  }, []);
+
+  // Read during render so storage never runs against the defaults once the user is known
+  const workspace = useMemo(
+    () => username && typeof window !== 'undefined'
+      ? loadWorkspace(username)
+      : { libraries: [defaultLibrary(username)], active: libraryKey(defaultLibrary(username)) },
+    // version changes whenever the saved workspace does
+    [username, version]
+  );
+
+  const setActive = useCallback(
+    (active: string) => saveWorkspace(username, { ...workspace, active }),
+    [username, workspace]
+  );
+
+  const saveLibraries = useCallback(
+    (libraries: LibrarySettings[]) => saveWorkspace(username, { ...workspace, libraries }),
+    [username, workspace]
+  );
+
+  return { ...workspace, setActive, saveLibraries };
+}
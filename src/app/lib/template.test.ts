@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PromptVariable } from '../types/prompt';
+import { extractPlaceholders, initialValues, renderTemplate, syncVariables, validateValues } from './template';
+
+const variables: PromptVariable[] = [
+  { name: 'ticket', type: 'text', required: true },
+  { name: 'count', type: 'number', default: '3', required: false },
+  { name: 'formal', type: 'boolean', required: false },
+];
+
+describe('template', () => {
+  it('finds each placeholder once, in order', () => {
+    expect(extractPlaceholders('{{ ticket }} in {{count}} bullets, {{ticket}} {{user.name}} {{> partial}} {{1x}}'))
+      .toEqual(['ticket', 'count', 'user.name']);
+  });
+
+  it('keeps known variables, adds new placeholders and drops unused ones', () => {
+    expect(syncVariables('{{count}} bullets for {{audience}}', variables)).toEqual([
+      { name: 'count', type: 'number', default: '3', required: false },
+      { name: 'audience', type: 'string', required: true },
+    ]);
+  });
+
+  it('starts the form from defaults', () => {
+    expect(initialValues(variables)).toEqual({ ticket: '', count: '3', formal: 'false' });
+  });
+
+  it('flags missing and non-numeric values', () => {
+    expect(validateValues(variables, { ticket: ' ', count: 'three' })).toEqual({
+      ticket: 'Required',
+      count: 'Must be a number',
+    });
+    expect(validateValues(variables, { ticket: 'Printer on fire', count: '' })).toEqual({});
+  });
+
+  it('fills in values and leaves empty ones as placeholders', () => {
+    expect(renderTemplate('{{ticket}} in {{ count }} bullets for {{audience}}', { ticket: 'It broke', count: '' }))
+      .toBe('It broke in {{ count }} bullets for {{audience}}');
+  });
+});
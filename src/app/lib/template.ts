@@ -0,0 +1,51 @@
+import { PromptVariable } from '../types/prompt';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+// Placeholder names in order of first appearance
+export function extractPlaceholders(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Returns a schema with one entry per placeholder in content. Known variables
+ * keep their settings, new ones start as required strings, and variables whose
+ * placeholder is gone are dropped.
+ */
+export function syncVariables(content: string, variables: PromptVariable[]): PromptVariable[] {
+  const known = new Map(variables.map(variable => [variable.name, variable]));
+  return extractPlaceholders(content).map(name =>
+    known.get(name) ?? { name, type: 'string', required: true }
+  );
+}
+
+export function initialValues(variables: PromptVariable[]): Record<string, string> {
+  return Object.fromEntries(
+    variables.map(variable => [variable.name, variable.default ?? (variable.type === 'boolean' ? 'false' : '')])
+  );
+}
+
+// Error message per variable name for values that cannot be rendered
+export function validateValues(variables: PromptVariable[], values: Record<string, string>): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const variable of variables) {
+    const value = values[variable.name] ?? '';
+    if (variable.required && value.trim() === '') {
+      errors[variable.name] = 'Required';
+    } else if (variable.type === 'number' && value.trim() !== '' && Number.isNaN(Number(value))) {
+      errors[variable.name] = 'Must be a number';
+    }
+  }
+  return errors;
+}
+
+// Replaces each placeholder with its value; placeholders without a value are left as they are
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER, (placeholder, name: string) =>
+    values[name] !== undefined && values[name] !== '' ? values[name] : placeholder
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { countPromptTokens, countTokens, formatCost, inputCost, loadEncoder } from './tokens';
+
+const chat = {
+  format: 'chat' as const,
+  content: '<!-- role: system -->\nBe brief.\n\n<!-- role: user -->\nHi',
+};
+
+describe('tokens', () => {
+  it('counts OpenAI prompts exactly and estimates the others', async () => {
+    const encoder = await loadEncoder('openai', 'gpt-4o');
+    expect(encoder?.countTokens('Hello, world!')).toBe(4);
+    expect(countTokens('Hello, world!', 'openai', encoder)).toBe(4);
+    expect(await loadEncoder('anthropic', 'claude-3-5-sonnet-latest')).toBeNull();
+    expect(countTokens('Hello, world!', 'anthropic')).toBe(4);
+  });
+
+  it('estimates long words, digits and other scripts by their length', () => {
+    expect(countTokens('internationalization', 'generic')).toBeGreaterThan(countTokens('international', 'generic'));
+    expect(countTokens('123456', 'gemini')).toBe(6);
+    expect(countTokens('123456', 'openai')).toBe(2);
+    expect(countTokens('你好世界', 'generic')).toBe(4);
+  });
+
+  it('adds each chat message’s role and separators', async () => {
+    const encoder = await loadEncoder('openai', 'gpt-4o');
+    // Three to prime the reply, then per message three separators, the role and the text
+    expect(countPromptTokens(chat, 'openai', encoder)).toBe(3 + (3 + 1 + 3) + (3 + 1 + 1));
+    expect(countPromptTokens(chat, 'anthropic')).toBe(5 + (5 + 3) + (5 + 1));
+    expect(countPromptTokens({ content: 'Be brief.' }, 'openai', encoder)).toBe(3);
+  });
+
+  it('prices input and keeps small amounts readable', () => {
+    expect(formatCost(inputCost(1_000_000, 2.5))).toBe('$2.50');
+    expect(formatCost(inputCost(1000, 3))).toBe('$0.0030');
+    expect(formatCost(0)).toBe('$0');
+  });
+});
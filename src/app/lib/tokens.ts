@@ -0,0 +1,138 @@
+import { PromptFormat } from '../types/prompt';
+import { isChat, parseChat } from './chat';
+
+/**
+ * OpenAI publishes its vocabularies, so OpenAI prompts are counted exactly
+ * with gpt-tokenizer, loaded only when needed. The other families have no
+ * public tokenizer and are estimated: text is split the way byte-pair
+ * tokenizers split it before merging (words with their leading space, digit
+ * runs, punctuation runs, whitespace), and each piece is costed with ratios
+ * that differ per family. The playground reports the provider's real usage.
+ */
+export const TOKENIZERS = ['openai', 'anthropic', 'gemini', 'llama', 'mistral', 'generic'] as const;
+
+export type TokenizerFamily = typeof TOKENIZERS[number];
+
+interface TokenizerProfile {
+  // Characters of a Latin-script word one token covers once the word is too long to be a single token
+  charsPerToken: number;
+  // Words up to this length, leading space included, are usually one token
+  wholeWord: number;
+  // Digits grouped into one token
+  digitsPerToken: number;
+  // Tokens each chat message adds for its role and separators
+  messageOverhead: number;
+}
+
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  openai: { charsPerToken: 4, wholeWord: 8, digitsPerToken: 3, messageOverhead: 4 },
+  anthropic: { charsPerToken: 3.5, wholeWord: 7, digitsPerToken: 3, messageOverhead: 5 },
+  gemini: { charsPerToken: 4, wholeWord: 8, digitsPerToken: 1, messageOverhead: 4 },
+  llama: { charsPerToken: 3.8, wholeWord: 7, digitsPerToken: 3, messageOverhead: 5 },
+  mistral: { charsPerToken: 3.5, wholeWord: 6, digitsPerToken: 1, messageOverhead: 4 },
+  generic: { charsPerToken: 3.7, wholeWord: 7, digitsPerToken: 2, messageOverhead: 4 },
+};
+
+const PIECES = /'(?:[sdmt]|ll|ve|re)| ?[\p{Script=Latin}\p{M}]+| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+// Scripts without spaces between words, where a token is roughly one character
+const IDEOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+function pieceTokens(piece: string, profile: TokenizerProfile): number {
+  const text = piece.trimStart();
+  if (text === '') {
+    // Runs of spaces and newlines merge into few tokens
+    return Math.ceil(piece.length / 8);
+  }
+  if (/^\p{N}+$/u.test(text)) {
+    return Math.ceil(text.length / profile.digitsPerToken);
+  }
+  if (/^[\p{Script=Latin}\p{M}]+$/u.test(text)) {
+    return piece.length <= profile.wholeWord ? 1 : Math.ceil(piece.length / profile.charsPerToken);
+  }
+  if (/^\p{L}+$/u.test(text)) {
+    // Other scripts take more bytes per character, so fewer characters fit in a token
+    return IDEOGRAPHIC.test(text) ? text.length : Math.ceil(text.length / 2);
+  }
+  // Punctuation and symbols, where common pairs such as {{ or ." are merged
+  return Math.ceil(text.length / 2);
+}
+
+// An exact tokenizer for a model's vocabulary
+export interface Encoder {
+  countTokens(text: string): number;
+}
+
+// OpenAI's chat format wraps each message, and primes the reply, with three tokens
+const CHAT_SEPARATOR_TOKENS = 3;
+
+const encoders = new Map<string, Promise<Encoder>>();
+
+/**
+ * The exact tokenizer for a model, or null when its family only has estimates.
+ * Each vocabulary is a large download, so it is loaded on first use and kept.
+ */
+export function loadEncoder(family: TokenizerFamily, model: string): Promise<Encoder | null> {
+  if (family !== 'openai') {
+    return Promise.resolve(null);
+  }
+  // GPT-4 and GPT-3.5 use cl100k_base; GPT-4o and everything after it use o200k_base
+  const encoding = /^(gpt-4(-|$)|gpt-3\.5|text-embedding-)/.test(model) ? 'cl100k_base' : 'o200k_base';
+  let loading = encoders.get(encoding);
+  if (!loading) {
+    // Literal paths so bundlers can split each vocabulary into its own chunk
+    loading = encoding === 'cl100k_base'
+      ? import('gpt-tokenizer/encoding/cl100k_base')
+      : import('gpt-tokenizer/encoding/o200k_base');
+    // A failed load is retried next time rather than cached
+    loading.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, loading);
+  }
+  return loading;
+}
+
+export function countTokens(text: string, family: TokenizerFamily, encoder?: Encoder | null): number {
+  if (encoder) {
+    return encoder.countTokens(text);
+  }
+  const profile = PROFILES[family];
+  let count = 0;
+  for (const match of text.matchAll(PIECES)) {
+    count += pieceTokens(match[0], profile);
+  }
+  return count;
+}
+
+/**
+ * Tokens a prompt sends as input, chat messages with their per-message
+ * overhead. With an encoder each message costs its separators plus its role.
+ */
+export function countPromptTokens(
+  prompt: { format?: PromptFormat; content?: string },
+  family: TokenizerFamily,
+  encoder?: Encoder | null
+): number {
+  if (!isChat(prompt)) {
+    return countTokens(prompt.content ?? '', family, encoder);
+  }
+  const messageOverhead = encoder ? CHAT_SEPARATOR_TOKENS : PROFILES[family].messageOverhead;
+  return parseChat(prompt.content ?? '').reduce(
+    (total, message) => total
+      + countTokens(message.content, family, encoder)
+      + messageOverhead
+      + (encoder ? encoder.countTokens(message.role) : 0),
+    // The reply is primed with an assistant turn
+    messageOverhead
+  );
+}
+
+// USD for the input tokens of one call, from a price per million tokens
+export function inputCost(tokens: number, pricePerMillion: number): number {
+  return tokens * pricePerMillion / 1_000_000;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  // Small amounts keep two significant digits rather than rounding to $0.00
+  return usd < 0.01 ? `$${usd.toPrecision(2)}` : `$${usd.toFixed(2)}`;
+}
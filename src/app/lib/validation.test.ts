@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError, parseFolder, parseVariables } from './validation';
+
+describe('parseVariables', () => {
+  it('keeps defaults YAML reads as numbers or booleans, as text', () => {
+    expect(parseVariables([
+      { name: 'count', type: 'number', default: 3 },
+      { name: 'formal', type: 'boolean', default: true },
+      { name: 'tone', type: 'string', default: 'friendly' },
+      { name: 'notes', type: 'text', default: null },
+    ])).toEqual([
+      { name: 'count', type: 'number', required: false, default: '3' },
+      { name: 'formal', type: 'boolean', required: false, default: 'true' },
+      { name: 'tone', type: 'string', required: false, default: 'friendly' },
+      { name: 'notes', type: 'text', required: false },
+    ]);
+  });
+
+  it('names the variable whose default cannot be used', () => {
+    expect(() => parseVariables([{ name: 'tags', type: 'string', default: ['a'] }]))
+      .toThrow(new ValidationError('variable "tags" needs a text, number or boolean default'));
+  });
+
+  it('rejects variables without a name or a known type', () => {
+    expect(() => parseVariables([{ name: 'x', type: 'date' }])).toThrow(ValidationError);
+    expect(() => parseVariables({})).toThrow(ValidationError);
+  });
+});
+
+describe('parseFolder', () => {
+  it('trims slashes and rejects hidden names', () => {
+    expect(parseFolder('/writing/blog/')).toBe('writing/blog');
+    expect(() => parseFolder('writing/.git')).toThrow(ValidationError);
+  });
+});
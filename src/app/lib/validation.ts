@@ -0,0 +1,110 @@
+import { PromptFormat, PromptInput, PromptVariable, VariableType } from '../types/prompt';
+
+const VARIABLE_TYPES: VariableType[] = ['string', 'text', 'number', 'boolean'];
+
+export const PROMPT_FORMATS: PromptFormat[] = ['text', 'chat'];
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export function parseVariables(value: unknown): PromptVariable[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('variables must be an array');
+  }
+
+  return value.map((variable, index) => {
+    if (typeof variable?.name !== 'string' || !VARIABLE_TYPES.includes(variable.type)) {
+      throw new ValidationError(`variables[${index}] needs a name and a type of ${VARIABLE_TYPES.join(', ')}`);
+    }
+    // YAML reads an unquoted default such as 3 or true as a number or boolean; the form fills in text
+    const fallback = variable.default;
+    if (fallback !== undefined && fallback !== null && !['string', 'number', 'boolean'].includes(typeof fallback)) {
+      throw new ValidationError(`variable "${variable.name}" needs a text, number or boolean default`);
+    }
+    return {
+      name: variable.name,
+      type: variable.type,
+      required: Boolean(variable.required),
+      ...(fallback !== undefined && fallback !== null ? { default: String(fallback) } : {}),
+      ...(typeof variable.description === 'string' ? { description: variable.description } : {}),
+    };
+  });
+}
+
+// Folder names may hold letters, digits, spaces, dots, - and _, but not start with a dot
+const FOLDER_NAME = /^[\p{L}\p{N}_-][\p{L}\p{N}_ .-]*$/u;
+
+// A folder path such as writing/blog, without leading or trailing slashes; '' is the top level
+export function parseFolder(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError('folder must be a string');
+  }
+  const folder = value.trim().replace(/^\/+|\/+$/g, '');
+  if (folder !== '' && !folder.split('/').every(name => FOLDER_NAME.test(name) && name === name.trim())) {
+    throw new ValidationError(`folder "${value}" must be names of letters, digits, spaces, dots, - and _ separated by /`);
+  }
+  return folder;
+}
+
+/**
+ * Checks a request body against PromptInput. For updates, pass the stored
+ * prompt as current and any field left out of the body keeps its value.
+ */
+export function parsePromptInput(body: unknown, current?: PromptInput): PromptInput {
+  if (typeof body !== 'object' || body === null) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+  const pick = <K extends keyof PromptInput>(key: K): unknown => fields[key] ?? current?.[key];
+
+  const title = pick('title');
+  if (typeof title !== 'string' || title.trim() === '') {
+    throw new ValidationError('title is required');
+  }
+  const content = pick('content');
+  if (typeof content !== 'string') {
+    throw new ValidationError('content is required');
+  }
+  const provider = pick('provider');
+  if (typeof provider !== 'string' || provider === '') {
+    throw new ValidationError('provider is required');
+  }
+  const model = pick('model');
+  if (typeof model !== 'string' || model === '') {
+    throw new ValidationError('model is required');
+  }
+  const description = pick('description') ?? '';
+  if (typeof description !== 'string') {
+    throw new ValidationError('description must be a string');
+  }
+  const tags = pick('tags') ?? [];
+  if (!isStringArray(tags)) {
+    throw new ValidationError('tags must be an array of strings');
+  }
+  const format = pick('format') ?? 'text';
+  if (!PROMPT_FORMATS.includes(format as PromptFormat)) {
+    throw new ValidationError(`format must be one of ${PROMPT_FORMATS.join(', ')}`);
+  }
+  const variables = pick('variables');
+  const folder = pick('folder');
+
+  return {
+    title,
+    description,
+    tags,
+    provider,
+    model,
+    ...(format === 'chat' ? { format } : {}),
+    content,
+    ...(variables !== undefined ? { variables: parseVariables(variables) } : {}),
+    ...(folder !== undefined ? { folder: parseFolder(folder) } : {}),
+  };
+}
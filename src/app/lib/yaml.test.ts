@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { YamlError, parseYaml, stringifyYaml } from './yaml';
+
+describe('yaml', () => {
+  it('parses mappings, sequences, scalars and comments', () => {
+    expect(parseYaml([
+      '# A prompt',
+      'title: Summarize  # trailing comment',
+      'count: 3',
+      'enabled: true',
+      'model: null',
+      'quoted: "a: b # c"',
+      "single: 'it''s'",
+      'tags: [a, "b, c", {k: v}]',
+      'variables:',
+      '  - one',
+      '  - name: ticket',
+      '    type: string',
+      'empty: []',
+    ].join('\n'))).toEqual({
+      title: 'Summarize',
+      count: 3,
+      enabled: true,
+      model: null,
+      quoted: 'a: b # c',
+      single: "it's",
+      tags: ['a', 'b, c', { k: 'v' }],
+      variables: ['one', { name: 'ticket', type: 'string' }],
+      empty: [],
+    });
+  });
+
+  it('parses literal and folded block scalars', () => {
+    expect(parseYaml('literal: |\n  line 1\n  line 2\nfolded: >-\n  a\n  b\n\n  c\n')).toEqual({
+      literal: 'line 1\nline 2\n',
+      folded: 'a b\nc',
+    });
+  });
+
+  it('reads back what it writes', () => {
+    const value = {
+      title: 'Keys: like this',
+      number: '3',
+      boolean: 'true',
+      content: 'Line one\nLine two\n',
+      unterminated: 'Line one\nLine two',
+      indented: ' leading space',
+      comment: 'a #b',
+      empty: '',
+      nested: [{ count: 1, tags: [] }, ['x']],
+      none: {},
+    };
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+
+  it('writes multi-line text as a literal block', () => {
+    expect(stringifyYaml({ content: 'a\nb\n' })).toBe('content: |\n  a\n  b\n');
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseYaml('a: [1, 2')).toThrow(new YamlError('Unclosed [', 0));
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow(YamlError);
+  });
+});
@@ -0,0 +1,365 @@
+// The YAML prompt libraries use: block mappings and sequences, plain and quoted
+// scalars, flow collections and block scalars. Anchors, tags and multi-document
+// streams are not supported.
+
+export class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(`${message} (line ${line + 1})`);
+    this.name = 'YamlError';
+  }
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Drops a trailing comment, leaving # inside quotes alone
+function stripComment(text: string): string {
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+// Position of the colon that ends a mapping key, or -1 when the text is not a key/value pair
+function findMappingColon(text: string): number {
+  let quote = '';
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ':' && depth === 0 && (i + 1 === text.length || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function parseQuoted(text: string, line: number): string {
+  if (text.startsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new YamlError(`Invalid quoted string ${text}`, line);
+  }
+}
+
+// Parses [a, b] and {a: 1} collections, which may nest
+function parseFlow(text: string, line: number): unknown {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readScalar = (stops: string): unknown => {
+    skipSpace();
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quote = text[pos];
+      let end = pos + 1;
+      while (end < text.length && !(text[end] === quote && text[end - 1] !== '\\')) end++;
+      const raw = text.slice(pos, end + 1);
+      pos = end + 1;
+      return parseQuoted(raw, line);
+    }
+    const start = pos;
+    while (pos < text.length && !stops.includes(text[pos])) pos++;
+    return parseScalar(text.slice(start, pos).trim(), line);
+  };
+
+  const readValue = (stops: string): unknown => {
+    skipSpace();
+    if (text[pos] === '[') {
+      pos++;
+      const items: unknown[] = [];
+      skipSpace();
+      while (text[pos] !== ']') {
+        if (pos >= text.length) throw new YamlError('Unclosed [', line);
+        items.push(readValue(',]'));
+        skipSpace();
+        if (text[pos] === ',') pos++;
+        skipSpace();
+      }
+      pos++;
+      return items;
+    }
+    if (text[pos] === '{') {
+      pos++;
+      const result: Record<string, unknown> = {};
+      skipSpace();
+      while (text[pos] !== '}') {
+        if (pos >= text.length) throw new YamlError('Unclosed {', line);
+        const key = String(readScalar(':,}'));
+        skipSpace();
+        if (text[pos] === ':') {
+          pos++;
+          result[key] = readValue(',}');
+        } else {
+          result[key] = null;
+        }
+        skipSpace();
+        if (text[pos] === ',') pos++;
+        skipSpace();
+      }
+      pos++;
+      return result;
+    }
+    return readScalar(stops);
+  };
+
+  const value = readValue('');
+  skipSpace();
+  if (pos < text.length) {
+    throw new YamlError(`Unexpected ${text.slice(pos)}`, line);
+  }
+  return value;
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text);
+  if (text.startsWith('"') || text.startsWith("'")) return parseQuoted(text, line);
+  if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text, line);
+  return text;
+}
+
+// Joins the lines of a > scalar: single breaks become spaces, blank lines become breaks
+function fold(lines: string[]): string {
+  let result = '';
+  for (const line of lines) {
+    if (line === '') {
+      result += '\n';
+    } else if (result === '' || result.endsWith('\n')) {
+      result += line;
+    } else {
+      result += ` ${line}`;
+    }
+  }
+  return result;
+}
+
+export function parseYaml(source: string): unknown {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+  if (lines[0]?.trim() === '---') {
+    index++;
+  }
+
+  const skipBlank = () => {
+    while (index < lines.length && stripComment(lines[index].trim()) === '') index++;
+  };
+
+  // The value under a key or dash whose own line is at parentIndent
+  const parseBlockScalar = (indicator: string, parentIndent: number): string => {
+    const body: string[] = [];
+    let blockIndent = -1;
+    while (index < lines.length) {
+      const line = lines[index];
+      if (line.trim() === '') {
+        body.push('');
+        index++;
+        continue;
+      }
+      const indent = indentOf(line);
+      if (blockIndent === -1) {
+        if (indent <= parentIndent) break;
+        blockIndent = indent;
+      }
+      if (indent < blockIndent) break;
+      body.push(line.slice(blockIndent));
+      index++;
+    }
+
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+      trailing++;
+    }
+    const text = indicator.startsWith('>') ? fold(body) : body.join('\n');
+    if (indicator.endsWith('-') || body.length === 0) return text;
+    return indicator.endsWith('+') ? text + '\n'.repeat(trailing + 1) : `${text}\n`;
+  };
+
+  const parseValue = (text: string, parentIndent: number): unknown =>
+    /^[|>][-+]?$/.test(text) ? parseBlockScalar(text, parentIndent) : parseScalar(text, index - 1);
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (skipBlank(); index < lines.length; skipBlank()) {
+      const line = lines[index];
+      const text = stripComment(line.slice(indent));
+      if (indentOf(line) !== indent || !isSequenceItem(text)) break;
+
+      const rest = text.slice(1).trimStart();
+      if (rest === '') {
+        index++;
+        items.push(parseNode(indent + 1));
+      } else if (findMappingColon(rest) !== -1 && !/^["'[{]/.test(rest)) {
+        // "- key: value" opens a mapping whose keys line up after the dash
+        const itemIndent = indent + (text.length - rest.length);
+        lines[index] = ' '.repeat(itemIndent) + rest;
+        items.push(parseMapping(itemIndent));
+      } else if (isSequenceItem(rest)) {
+        const itemIndent = indent + (text.length - rest.length);
+        lines[index] = ' '.repeat(itemIndent) + rest;
+        items.push(parseSequence(itemIndent));
+      } else {
+        index++;
+        items.push(parseValue(rest, indent));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    for (skipBlank(); index < lines.length; skipBlank()) {
+      const line = lines[index];
+      if (indentOf(line) !== indent) break;
+      const text = stripComment(line.slice(indent));
+      const colon = findMappingColon(text);
+      if (colon === -1) {
+        if (isSequenceItem(text)) break;
+        throw new YamlError(`Expected "key: value" but found ${text}`, index);
+      }
+
+      const key = String(parseScalar(text.slice(0, colon).trim(), index));
+      const rest = text.slice(colon + 1).trim();
+      index++;
+      if (rest !== '') {
+        result[key] = parseValue(rest, indent);
+        continue;
+      }
+
+      // A nested block; sequences may sit at the same indentation as their key
+      skipBlank();
+      const next = lines[index];
+      const nextIndent = next === undefined ? -1 : indentOf(next);
+      if (nextIndent > indent || (nextIndent === indent && isSequenceItem(next.trim()))) {
+        result[key] = parseNode(nextIndent);
+      } else {
+        result[key] = null;
+      }
+    }
+    return result;
+  };
+
+  const parseNode = (minIndent: number): unknown => {
+    skipBlank();
+    if (index >= lines.length) return null;
+    const line = lines[index];
+    const indent = indentOf(line);
+    if (indent < minIndent) return null;
+
+    const text = stripComment(line.slice(indent));
+    if (isSequenceItem(text)) return parseSequence(indent);
+    if (findMappingColon(text) !== -1 && !/^[[{]/.test(text)) return parseMapping(indent);
+    index++;
+    return parseValue(text, indent - 1);
+  };
+
+  const value = parseNode(0);
+  skipBlank();
+  if (index < lines.length && lines[index].trim() !== '...') {
+    throw new YamlError(`Unexpected ${lines[index].trim()}`, index);
+  }
+  return value;
+}
+
+// Whether a string can be written without quotes and still read back as the same string
+function isPlainSafe(text: string): boolean {
+  return /^[^\s\-?:,[\]{}#&*!|>'"%@`]/.test(text)
+    && !/[\n\r\t]|: | #|:$|\s$/.test(text)
+    && parseScalar(text, 0) === text;
+}
+
+function stringifyScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return isPlainSafe(value) ? value : JSON.stringify(value);
+  return String(value);
+}
+
+// Multi-line strings read best as literal blocks; returns null when one would not round-trip
+function blockScalar(text: string, indent: number): string[] | null {
+  if (!text.includes('\n') || /^[ \t]|\n\n$|[\r\u0000-\u0008\u000b-\u001f]/.test(text)) {
+    return null;
+  }
+  const pad = ' '.repeat(indent);
+  const keep = text.endsWith('\n');
+  const body = (keep ? text.slice(0, -1) : text).split('\n').map(line => line === '' ? '' : pad + line);
+  return [keep ? '|' : '|-', ...body];
+}
+
+function isCollection(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+    && (Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0);
+}
+
+function inlineValue(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object' && value !== null) return '{}';
+  return stringifyScalar(value);
+}
+
+// Lines for a mapping or sequence whose entries start at indent
+function stringifyBlock(value: object, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  const entry = (prefix: string, item: unknown) => {
+    if (isCollection(item)) {
+      const nested = stringifyBlock(item, indent + 2);
+      if (Array.isArray(value) && !Array.isArray(item)) {
+        // A mapping in a sequence starts on the dash line
+        lines.push(`${prefix} ${nested[0].trimStart()}`, ...nested.slice(1));
+      } else {
+        lines.push(prefix, ...nested);
+      }
+      return;
+    }
+    const block = typeof item === 'string' ? blockScalar(item, indent + 2) : null;
+    if (block) {
+      lines.push(`${prefix} ${block[0]}`, ...block.slice(1));
+    } else {
+      lines.push(`${prefix} ${inlineValue(item)}`);
+    }
+  };
+
+  if (Array.isArray(value)) {
+    value.forEach(item => entry(`${pad}-`, item));
+  } else {
+    Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .forEach(([key, item]) => entry(`${pad}${stringifyScalar(key)}:`, item));
+  }
+  return lines;
+}
+
+export function stringifyYaml(value: unknown): string {
+  return `${(isCollection(value) ? stringifyBlock(value, 0) : [inlineValue(value)]).join('\n')}\n`;
+}
@@ -0,0 +1,48 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zip';
+
+// A one-file archive compressed the way most zip tools write them
+function deflatedZip(path: string, content: string): Uint8Array {
+  const name = Buffer.from(path);
+  const data = deflateRawSync(Buffer.from(content));
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(Buffer.byteLength(content), 22);
+  local.writeUInt16LE(name.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(Buffer.byteLength(content), 24);
+  central.writeUInt16LE(name.length, 28);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + name.length, 12);
+  end.writeUInt32LE(local.length + name.length + data.length, 16);
+  return new Uint8Array(Buffer.concat([local, name, data, central, name, end]));
+}
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const entries = [
+      { path: 'writing/blog-post.md', content: '---\ntitle: Blog post\n---\nWrite about {{topic}}\n' },
+      { path: 'résumé.md', content: 'Ünïcödé text ✓' },
+      { path: 'empty.md', content: '' },
+    ];
+    expect(await readZip(createZip(entries))).toEqual(entries);
+  });
+
+  it('reads deflated entries', async () => {
+    const content = 'Repeated text. '.repeat(50);
+    expect(await readZip(deflatedZip('prompt.md', content))).toEqual([{ path: 'prompt.md', content }]);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip archive at all'))).rejects.toThrow('Not a zip archive');
+  });
+});
@@ -2,11 +2,13 @@
 
 import { signIn, useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { PRIVATE_REPO_SCOPE, PUBLIC_REPO_SCOPE } from "./lib/githubScopes";
 
 export default function Home() {
   const { data: session, status } = useSession();
   const router = useRouter();
+  const [includePrivate, setIncludePrivate] = useState(false);
 
   useEffect(() => {
     if (status === "authenticated") {
@@ -24,7 +26,11 @@ export default function Home() {
         
         <div className="mt-8">
           <button
-            onClick={() => signIn("github", { callbackUrl: "/dashboard" })}
+            onClick={() => signIn(
+              "github",
+              { callbackUrl: "/dashboard" },
+              { scope: includePrivate ? PRIVATE_REPO_SCOPE : PUBLIC_REPO_SCOPE }
+            )}
             className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-base font-medium rounded-md text-white bg-button hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-accent"
           >
             <svg
@@ -40,6 +46,18 @@ export default function Home() {
             </svg>
             Sign in with GitHub
           </button>
+          <label className="mt-4 flex items-start text-sm text-secondary">
+            <input
+              type="checkbox"
+              checked={includePrivate}
+              onChange={(e) => setIncludePrivate(e.target.checked)}
+              className="mt-0.5 mr-2"
+            />
+            <span>
+              Include private repositories. GitHub will ask for full access to your public and private
+              repositories, which private prompt libraries need.
+            </span>
+          </label>
         </div>
       </div>
     </div>
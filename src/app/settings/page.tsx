@@ -0,0 +1,207 @@
+'use client';
+
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { LibrarySettings, defaultLibrary, describeLibrary, libraryKey, normalizeBaseDir } from "../lib/storage/library";
+import { useWorkspace } from "../lib/storage/useWorkspace";
+
+const isLocalStorage = process.env.NEXT_PUBLIC_PROMPT_STORAGE === 'local';
+
+export default function Settings() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const { libraries, saveLibraries } = useWorkspace();
+  const [form, setForm] = useState<LibrarySettings[]>(libraries);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/");
+    }
+  }, [status, router]);
+
+  // Load the saved libraries once the session tells us whose they are
+  useEffect(() => {
+    setForm(libraries);
+  }, [libraries]);
+
+  const setField = (index: number, field: keyof LibrarySettings, value: string) => {
+    setForm(prev => prev.map((library, i) => i === index ? { ...library, [field]: value } : library));
+    setSaved(false);
+  };
+
+  const addLibrary = () => {
+    setForm(prev => [...prev, { ...defaultLibrary(session?.username ?? ''), repo: '' }]);
+    setSaved(false);
+  };
+
+  const removeLibrary = (index: number) => {
+    setForm(prev => prev.filter((_, i) => i !== index));
+    setSaved(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const keys = form.map(({ owner, repo, branch, baseDir }) =>
+      libraryKey({ owner: owner.trim(), repo: repo.trim(), branch: branch.trim(), baseDir: normalizeBaseDir(baseDir) })
+    );
+    if (new Set(keys).size !== keys.length) {
+      setError('The same library is listed twice.');
+      return;
+    }
+    setError('');
+    saveLibraries(form);
+    setSaved(true);
+  };
+
+  if (status !== "authenticated") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <nav className="bg-secondary border-b border-default">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-2xl font-bold text-default">Settings</h1>
+            </div>
+            <div className="flex items-center">
+              <Link href="/dashboard" className="text-default hover:underline">
+                Back to dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+        <form onSubmit={handleSubmit} className="p-4 bg-secondary rounded-lg border border-default space-y-4">
+          <div>
+            <h3 className="font-medium text-default">Prompt libraries</h3>
+            <p className="text-sm text-secondary mt-1">
+              Each library opens in the dashboard, where you can switch between them or list them all together.
+              Settings are saved for {session.username} in this browser.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-error/10 text-error rounded-md">
+              {error}
+            </div>
+          )}
+
+          {form.map((library, index) => (
+            <div key={index} className="p-4 rounded-md border border-default space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-default">Library {index + 1}</span>
+                {form.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeLibrary(index)}
+                    className="px-2 py-1 text-xs text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-default">Owner</label>
+                  <input
+                    type="text"
+                    value={library.owner}
+                    onChange={(e) => setField(index, 'owner', e.target.value)}
+                    disabled={isLocalStorage}
+                    required
+                    className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white disabled:opacity-50"
+                  />
+                  <p className="text-xs text-secondary mt-1">Your username or an organization you belong to</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-default">Repository</label>
+                  <input
+                    type="text"
+                    value={library.repo}
+                    onChange={(e) => setField(index, 'repo', e.target.value)}
+                    disabled={isLocalStorage}
+                    required
+                    className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white disabled:opacity-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-default">Branch</label>
+                  <input
+                    type="text"
+                    value={library.branch}
+                    onChange={(e) => setField(index, 'branch', e.target.value)}
+                    placeholder="Default branch"
+                    className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-default">Base directory</label>
+                  <input
+                    type="text"
+                    value={library.baseDir}
+                    onChange={(e) => setField(index, 'baseDir', e.target.value)}
+                    placeholder="Repository root"
+                    className="mt-1 block w-full rounded-md bg-[#2a2a2a] border-[#3a3a3a] text-white"
+                  />
+                  <p className="text-xs text-secondary mt-1">metadata.json and prompts/ live here</p>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {isLocalStorage && (
+            <p className="text-sm text-secondary">
+              Prompts are stored in the server&apos;s local repository, so only the branch and base directory apply.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-secondary">
+              {saved
+                ? `Saved. Using ${libraries.map(describeLibrary).join(', ')}.`
+                : `Currently using ${libraries.map(describeLibrary).join(', ')}.`}
+            </span>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={addLibrary}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+              >
+                Add library
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setForm([defaultLibrary(session.username ?? '')]);
+                  setSaved(false);
+                }}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#2a2a2a] border border-[#3a3a3a] rounded-md hover:bg-[#3a3a3a]"
+              >
+                Reset to defaults
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-button rounded-md hover:opacity-90"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ declare module "next-auth" {
   interface Session {
     accessToken?: string;
     username?: string;
+    // OAuth scopes granted to accessToken
+    scope?: string;
     user?: {
       name?: string | null;
       email?: string | null;
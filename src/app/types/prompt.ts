@@ -0,0 +1,56 @@
+// A provider id from the library's registry, see lib/modelRegistry
+export type Provider = string;
+
+// Chat prompts keep role-tagged messages in their content, see lib/chat
+export type PromptFormat = 'text' | 'chat';
+
+export type VariableType = 'string' | 'text' | 'number' | 'boolean';
+
+// Describes one {{placeholder}} in a prompt's content
+export interface PromptVariable {
+  name: string;
+  type: VariableType;
+  default?: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface PromptMetadata {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  provider: Provider;
+  model: string;
+  // Left out for plain text prompts
+  format?: PromptFormat;
+  filename: string;
+  variables?: PromptVariable[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Metadata {
+  // Left out by files from before it was introduced, which count as version 1
+  schemaVersion?: number;
+  prompts: PromptMetadata[];
+}
+
+export interface Prompt extends PromptMetadata {
+  content?: string;
+}
+
+// The user-editable part of a prompt
+export interface PromptInput {
+  title: string;
+  description: string;
+  tags: string[];
+  provider: Provider;
+  model: string;
+  // Plain text when left out
+  format?: PromptFormat;
+  content: string;
+  variables?: PromptVariable[];
+  // Folder under prompts/, see lib/storage/promptFile; left out, new prompts go at the top and others stay where they are
+  folder?: string;
+}
@@ -0,0 +1,410 @@
+import { execFileSync, spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { Prompt, Provider } from '../app/types/prompt';
+import { isChat, parseChat, promptText, serializeChat, toAnthropicPayload, toOpenAIMessages } from '../app/lib/chat';
+import { BUILTIN_PROVIDERS, DEFAULT_PROVIDER, ProviderRegistry, findModel, providerInfo } from '../app/lib/modelRegistry';
+import { FolderNode, buildFolderTree, isInFolder } from '../app/lib/folders';
+import { withBaseDir } from '../app/lib/storage/library';
+import { DirtyWorkingTreeError, createLocalGitBackend } from '../app/lib/storage/localGit';
+import { promptFolder } from '../app/lib/storage/promptFile';
+import { createPromptStorage } from '../app/lib/storage/promptStorage';
+import { SCHEMA_VERSION } from '../app/lib/storage/schema';
+import { PromptStorage } from '../app/lib/storage/types';
+import { buildSearchIndex, searchPrompts, snippet } from '../app/lib/search';
+import { IncludeError, includedPrompts, includingPrompts, resolveIncludes } from '../app/lib/partials';
+import { initialValues, renderTemplate, syncVariables, validateValues } from '../app/lib/template';
+import { countPromptTokens, formatCost, inputCost, loadEncoder } from '../app/lib/tokens';
+import { ValidationError, parseFolder } from '../app/lib/validation';
+
+const USAGE = `Usage: prompt-gitter <command> [options]
+
+Works on a local clone of a prompt library: prompts/*.md files with YAML front
+matter, and metadata.json recording the schema version.
+Every change is committed to the current branch; use push to publish it.
+
+Commands:
+  list [--tag <tag>] [--provider <provider>] [--folder <folder>]
+                                               List prompts, in a folder and the folders below it
+  folders                                      List folders with their prompt counts
+  show <prompt>                                Print a prompt and its metadata
+  new --title <title> --model <model> [--provider <provider>] [--description <text>] [--tags a,b] [--chat]
+      [--folder <folder>]                      Create a prompt, writing its content in $EDITOR;
+                                               --chat starts a list of role-tagged messages
+  edit <prompt> [--title ...] [--model ...]    Edit a prompt's content in $EDITOR
+  mv <prompt> <folder>                         Move a prompt to a folder under prompts/, "" for the top level
+  rm <prompt> [--force]                        Delete a prompt; --force also deletes one other prompts include
+  search <query>                               Ranked search, e.g. tag:rag provider:anthropic "a phrase" -draft
+  render <prompt> [--var name=value ...] [--as openai|anthropic]
+                                               Print a prompt with its includes and variables filled
+                                               in, or a chat prompt as an API payload
+  check [--repair]                             List integrity problems, or fix them in one commit
+  migrate                                      Upgrade the library to the current schema version
+  pull                                         git pull --ff-only
+  push                                         git push
+
+<prompt> is an id, a filename, or a filename without its .md extension.
+
+Options:
+  --repo <path>     Library repository (default: $PROMPT_GITTER_REPO or the current directory)
+  --branch <name>   Branch holding the library (default: the checked-out branch)
+  --dir <path>      Directory holding metadata.json and prompts/ (default: the repository root)`;
+
+class CliError extends Error {}
+
+function git(repo: string, args: string[]): string {
+  return execFileSync('git', ['-C', repo, ...args], { encoding: 'utf8' }).trim();
+}
+
+function gitConfig(repo: string, key: string): string {
+  try {
+    return git(repo, ['config', key]);
+  } catch {
+    return '';
+  }
+}
+
+// Opens $EDITOR on a scratch file seeded with initial and returns what was saved
+function editText(initial: string): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'prompt-gitter-'));
+  const file = path.join(dir, 'prompt.md');
+  try {
+    writeFileSync(file, initial);
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const result = spawnSync(editor, [file], { stdio: 'inherit', shell: true });
+    if (result.status !== 0) {
+      throw new CliError(`${editor} exited with status ${result.status}`);
+    }
+    return readFileSync(file, 'utf8');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function parseTags(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+function cliFolder(value: string): string {
+  try {
+    return parseFolder(value);
+  } catch (err) {
+    throw err instanceof ValidationError ? new CliError(err.message) : err;
+  }
+}
+
+function printFolders(node: FolderNode, depth = 0) {
+  for (const child of node.children) {
+    console.log(`${child.count}\t${'  '.repeat(depth)}${child.name}/`);
+    printFolders(child, depth + 1);
+  }
+}
+
+function parseProvider(registry: ProviderRegistry, value: string | undefined): Provider | undefined {
+  if (value !== undefined && !providerInfo(registry, value)) {
+    throw new CliError(`Unknown provider "${value}". Use one of: ${Object.keys(registry).join(', ')}`);
+  }
+  return value;
+}
+
+async function findPrompt(storage: PromptStorage, ref: string | undefined): Promise<Prompt> {
+  if (!ref) {
+    throw new CliError('Missing <prompt> argument');
+  }
+
+  const prompts = await storage.listPrompts();
+  const prompt = prompts.find(p =>
+    p.id === ref || p.filename === ref || p.filename.replace(/\.md$/, '') === ref
+  );
+  if (!prompt) {
+    throw new CliError(`No prompt matches "${ref}"`);
+  }
+  return prompt;
+}
+
+// Tokens are counted with includes filled in, as the prompt is sent; prompts is the library it belongs to
+async function formatPrompt(prompt: Prompt, prompts: Prompt[], registry: ProviderRegistry): Promise<string> {
+  const model = findModel(registry, prompt.provider, prompt.model);
+  const deprecation = model?.deprecated ? ` (deprecated${model.replacedBy ? `, consider ${model.replacedBy}` : ''})` : '';
+  const family = providerInfo(registry, prompt.provider)?.tokenizer ?? 'generic';
+  const encoder = await loadEncoder(family, prompt.model);
+  let content = prompt.content;
+  let note = '';
+  try {
+    content = resolveIncludes(prompt, prompts).content;
+  } catch (err) {
+    if (!(err instanceof IncludeError)) throw err;
+    note = ', includes not counted';
+  }
+  const tokens = countPromptTokens({ format: prompt.format, content }, family, encoder);
+  // Exact counts are plain; estimates are marked
+  const approx = encoder ? '' : '~';
+  const cost = model?.pricing ? `, ${approx}${formatCost(inputCost(tokens, model.pricing.input))} input per call` : '';
+  return [
+    `${prompt.title} (${prompt.id})`,
+    `  file:        prompts/${prompt.filename}`,
+    `  provider:    ${prompt.provider} / ${prompt.model}${deprecation}`,
+    `  tokens:      ${approx}${tokens}${encoder ? '' : ' (approximate)'}${cost}${note}`,
+    `  tags:        ${prompt.tags.join(', ')}`,
+    `  description: ${prompt.description}`,
+    `  updated:     ${prompt.updatedAt}`,
+  ].join('\n');
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      repo: { type: 'string' },
+      branch: { type: 'string' },
+      dir: { type: 'string' },
+      tag: { type: 'string', multiple: true },
+      provider: { type: 'string', multiple: true },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      tags: { type: 'string' },
+      model: { type: 'string' },
+      var: { type: 'string', multiple: true },
+      repair: { type: 'boolean' },
+      force: { type: 'boolean' },
+      chat: { type: 'boolean' },
+      as: { type: 'string' },
+      folder: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const repo = path.resolve(values.repo || process.env.PROMPT_GITTER_REPO || process.cwd());
+  const storage = createPromptStorage(withBaseDir(
+    createLocalGitBackend(repo, {
+      name: gitConfig(repo, 'user.name') || 'prompt-gitter',
+      email: gitConfig(repo, 'user.email') || 'prompt-gitter@localhost',
+    }, values.branch),
+    values.dir ?? ''
+  ));
+  // Only read when needed, since it loads the library
+  const registry = values.provider || command === 'show' ? await storage.readProviders() : BUILTIN_PROVIDERS;
+  const provider = parseProvider(registry, values.provider?.[0]);
+
+  switch (command) {
+    case 'list': {
+      const tags = values.tag ?? [];
+      const providers = (values.provider ?? []).map(value => parseProvider(registry, value));
+      const folder = cliFolder(values.folder ?? '');
+      for (const { path: file, errors } of await storage.listInvalidEntries()) {
+        console.error(`Skipping ${file}: ${errors.join('; ')}`);
+      }
+      const prompts = (await storage.listPrompts())
+        .filter(p => tags.length === 0 || tags.some(tag => p.tags.includes(tag)))
+        .filter(p => providers.length === 0 || providers.includes(p.provider))
+        .filter(p => isInFolder(p, folder));
+      for (const prompt of prompts) {
+        console.log(`${prompt.id}\t${prompt.title}\t${prompt.provider}/${prompt.model}\t${prompt.tags.join(',')}`);
+      }
+      return;
+    }
+
+    case 'show': {
+      const prompt = await findPrompt(storage, args[0]);
+      const prompts = await storage.listPrompts();
+      const uses = includedPrompts(prompt, prompts);
+      const usedBy = includingPrompts(prompt, prompts);
+      const includes = [
+        ...(uses.length > 0 ? [`  uses:        ${uses.map(partial => partial.title).join(', ')}`] : []),
+        ...(usedBy.length > 0 ? [`  used by:     ${usedBy.map(other => other.title).join(', ')}`] : []),
+      ];
+      console.log(`${[await formatPrompt(prompt, prompts, registry), ...includes].join('\n')}\n\n${prompt.content ?? ''}`);
+      return;
+    }
+
+    case 'new': {
+      if (!values.title || !values.model) {
+        throw new CliError('new needs --title and --model');
+      }
+      const folder = cliFolder(values.folder ?? '');
+      const content = editText(values.chat
+        ? serializeChat([{ role: 'system', content: '' }, { role: 'user', content: '' }])
+        : '');
+      if ((values.chat ? parseChat(content).map(message => message.content).join('') : content).trim() === '') {
+        throw new CliError('Empty prompt, nothing created');
+      }
+      const prompt = await storage.createPrompt({
+        title: values.title,
+        description: values.description ?? '',
+        tags: parseTags(values.tags) ?? [],
+        provider: provider ?? DEFAULT_PROVIDER,
+        model: values.model,
+        ...(values.chat ? { format: 'chat' as const } : {}),
+        content,
+        variables: syncVariables(content, []),
+        folder,
+      });
+      console.log(`Created ${prompt.id} prompts/${prompt.filename}`);
+      return;
+    }
+
+    case 'edit': {
+      const current = await findPrompt(storage, args[0]);
+      const content = editText(current.content ?? '');
+      const input = {
+        title: values.title ?? current.title,
+        description: values.description ?? current.description,
+        tags: parseTags(values.tags) ?? current.tags,
+        provider: provider ?? current.provider,
+        model: values.model ?? current.model,
+        format: current.format,
+        content,
+        variables: syncVariables(content, current.variables ?? []),
+      };
+      try {
+        resolveIncludes({ ...current, ...input }, await storage.listPrompts());
+      } catch (err) {
+        // Includes that do not resolve yet are allowed, ones leading back to the prompt are not
+        if (err instanceof IncludeError && err.cycle) throw new CliError(err.message);
+        if (!(err instanceof IncludeError)) throw err;
+      }
+      const updated = await storage.updatePrompt(current.id, input, { base: current });
+      console.log(`Updated ${updated.id} prompts/${updated.filename}`);
+      return;
+    }
+
+    case 'mv': {
+      const prompt = await findPrompt(storage, args[0]);
+      if (args[1] === undefined) {
+        throw new CliError('Missing <folder> argument; use "" for the top level');
+      }
+      const folder = cliFolder(args[1]);
+      if (promptFolder(prompt.filename) === folder) {
+        console.log(`${prompt.title} is already in prompts/${folder ? `${folder}/` : ''}`);
+        return;
+      }
+      const moved = await storage.updatePrompt(prompt.id, {
+        title: prompt.title,
+        description: prompt.description,
+        tags: prompt.tags,
+        provider: prompt.provider,
+        model: prompt.model,
+        format: prompt.format,
+        content: prompt.content ?? '',
+        variables: prompt.variables,
+        folder,
+      }, { base: prompt });
+      console.log(`Moved ${moved.id} prompts/${prompt.filename} -> prompts/${moved.filename}`);
+      return;
+    }
+
+    case 'folders':
+      printFolders(buildFolderTree(await storage.listPrompts()));
+      return;
+
+    case 'rm': {
+      const prompt = await findPrompt(storage, args[0]);
+      const usedBy = includingPrompts(prompt, await storage.listPrompts());
+      if (usedBy.length > 0 && !values.force) {
+        const names = usedBy.map(other => other.title).join(', ');
+        throw new CliError(`${names} ${usedBy.length === 1 ? 'includes' : 'include'} this prompt; use --force to delete it anyway`);
+      }
+      await storage.deletePrompt(prompt.id, { base: prompt });
+      console.log(`Deleted ${prompt.id} prompts/${prompt.filename}`);
+      return;
+    }
+
+    case 'search': {
+      const results = searchPrompts(buildSearchIndex(await storage.listPrompts()), args.join(' '));
+      for (const { prompt, terms } of results) {
+        const excerpt = snippet(promptText(prompt), terms)?.map(part => part.text).join('') ?? '';
+        console.log(`${prompt.id}\t${prompt.title}\tprompts/${prompt.filename}\t${excerpt}`);
+      }
+      return;
+    }
+
+    case 'render': {
+      const prompt = await findPrompt(storage, args[0]);
+      let resolved;
+      try {
+        resolved = resolveIncludes(prompt, await storage.listPrompts());
+      } catch (err) {
+        if (err instanceof IncludeError) throw new CliError(err.message);
+        throw err;
+      }
+      const { variables } = resolved;
+      const vars = { ...initialValues(variables) };
+      for (const assignment of values.var ?? []) {
+        const separator = assignment.indexOf('=');
+        if (separator === -1) {
+          throw new CliError(`--var expects name=value, got "${assignment}"`);
+        }
+        vars[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+      }
+
+      const errors = Object.entries(validateValues(variables, vars));
+      if (errors.length > 0) {
+        throw new CliError(errors.map(([name, message]) => `${name}: ${message}`).join('\n'));
+      }
+      const rendered = renderTemplate(resolved.content, vars);
+      if (values.as === undefined) {
+        process.stdout.write(rendered);
+        return;
+      }
+      if (!isChat(prompt)) {
+        throw new CliError('--as needs a chat prompt');
+      }
+      const messages = parseChat(rendered);
+      if (values.as === 'openai') {
+        console.log(JSON.stringify(toOpenAIMessages(messages), null, 2));
+      } else if (values.as === 'anthropic') {
+        console.log(JSON.stringify(toAnthropicPayload(messages), null, 2));
+      } else {
+        throw new CliError(`--as expects openai or anthropic, got "${values.as}"`);
+      }
+      return;
+    }
+
+    case 'check': {
+      const problems = await storage.checkIntegrity();
+      for (const problem of problems) {
+        console.log(`${problem.kind}\t${problem.path}\t${problem.message}\t${problem.fix ?? 'fix by hand'}`);
+      }
+      if (values.repair) {
+        const fixed = await storage.repair(problems.map(problem => problem.key));
+        console.log(`Fixed ${fixed} ${fixed === 1 ? 'problem' : 'problems'}`);
+      }
+      return;
+    }
+
+    case 'migrate': {
+      if (!(await storage.needsMigration())) {
+        console.log(`Already at schema version ${SCHEMA_VERSION}`);
+        return;
+      }
+      const converted = await storage.migrate();
+      console.log(`Upgraded to schema version ${SCHEMA_VERSION}, adding front matter to ${converted} ${converted === 1 ? 'prompt' : 'prompts'}`);
+      return;
+    }
+
+    case 'pull':
+      console.log(git(repo, ['pull', '--ff-only']));
+      return;
+
+    case 'push':
+      console.log(git(repo, ['push']));
+      return;
+
+    default:
+      throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(err => {
+  console.error(err instanceof CliError || err instanceof DirtyWorkingTreeError ? err.message : err);
+  process.exit(1);
+});